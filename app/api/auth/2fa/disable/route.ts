@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import User, { IUser } from '@/models/User';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { verifySecondFactor } from '@/lib/two-factor';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const POST = withAuth(async (_req: NextRequest, { auth }) => {
+  try {
+    const { password, code } = await _req.json();
+    if (!password || !code) {
+      return NextResponse.json({ message: 'Password and verification code are required' }, { status: 400 });
+    }
+
+    const user = await User.findById(auth.userId).select('+password') as IUser | null;
+    if (!user || !user.twoFactorEnabled) {
+      return NextResponse.json({ message: 'Two-factor authentication is not enabled' }, { status: 400 });
+    }
+
+    const passwordMatches = await user.comparePassword(password);
+    const factor = passwordMatches ? await verifySecondFactor(user._id.toString(), String(code)) : null;
+    if (!factor) {
+      return NextResponse.json({ message: 'Invalid password or verification code' }, { status: 401 });
+    }
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: { twoFactorEnabled: false },
+        $unset: {
+          twoFactorSecret: 1,
+          twoFactorPendingSecret: 1,
+          twoFactorRecoveryCodes: 1,
+          twoFactorLastUsedStep: 1,
+        },
+      }
+    );
+
+    console.log(`POST /api/auth/2fa/disable: Two-factor authentication disabled for user ${user._id}.`);
+    return NextResponse.json({ message: 'Two-factor authentication disabled' }, { status: 200 });
+  } catch (error) {
+    console.error('POST /api/auth/2fa/disable: Server error:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
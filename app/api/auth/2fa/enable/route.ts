@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import User, { IUser } from '@/models/User';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { verifyTotp } from '@/lib/totp';
+import { generateRecoveryCodes } from '@/lib/two-factor';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const POST = withAuth(async (_req: NextRequest, { auth }) => {
+  try {
+    const { code } = await _req.json();
+    if (!code) {
+      return NextResponse.json({ message: 'Verification code is required' }, { status: 400 });
+    }
+
+    const user = await User.findById(auth.userId).select('+twoFactorPendingSecret') as IUser | null;
+    if (!user || user.banned) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json({ message: 'Two-factor authentication is already enabled' }, { status: 409 });
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      return NextResponse.json({ message: 'Start two-factor setup first' }, { status: 400 });
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, String(code));
+    if (step === null) {
+      return NextResponse.json({ message: 'Invalid verification code' }, { status: 400 });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorEnabled = true;
+    user.twoFactorLastUsedStep = step;
+    user.twoFactorRecoveryCodes = hashes;
+    await user.save();
+
+    console.log(`POST /api/auth/2fa/enable: Two-factor authentication enabled for user ${user._id}.`);
+    return NextResponse.json({
+      message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe; they are shown only once.',
+      recoveryCodes: codes,
+    }, { status: 200 });
+  } catch (error) {
+    console.error('POST /api/auth/2fa/enable: Server error:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
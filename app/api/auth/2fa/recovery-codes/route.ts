@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import User from '@/models/User';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { generateRecoveryCodes, verifySecondFactor } from '@/lib/two-factor';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+// Replaces all recovery codes; the previous ones stop working.
+export const POST = withAuth(async (_req: NextRequest, { auth }) => {
+  try {
+    const { code } = await _req.json();
+    if (!code) {
+      return NextResponse.json({ message: 'Verification code is required' }, { status: 400 });
+    }
+
+    const factor = await verifySecondFactor(auth.userId, String(code));
+    if (!factor) {
+      return NextResponse.json({ message: 'Invalid verification code' }, { status: 401 });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await User.updateOne({ _id: auth.userId }, { $set: { twoFactorRecoveryCodes: hashes } });
+
+    return NextResponse.json({ recoveryCodes: codes }, { status: 200 });
+  } catch (error) {
+    console.error('POST /api/auth/2fa/recovery-codes: Server error:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
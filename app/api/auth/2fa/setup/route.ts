@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import User, { IUser } from '@/models/User';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { buildOtpauthUri, generateTotpSecret } from '@/lib/totp';
+import { TWO_FACTOR_ISSUER } from '@/lib/two-factor';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+// Starts enrollment: issues a new secret that only takes effect once a code
+// generated from it is confirmed through /api/auth/2fa/enable.
+export const POST = withAuth(async (_req: NextRequest, { auth }) => {
+  try {
+    const user = await User.findById(auth.userId) as IUser | null;
+    if (!user || user.banned) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json({ message: 'Two-factor authentication is already enabled' }, { status: 409 });
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+
+    return NextResponse.json({
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, TWO_FACTOR_ISSUER),
+    }, { status: 200 });
+  } catch (error) {
+    console.error('POST /api/auth/2fa/setup: Server error:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db/connect';
+import User, { IUser } from '@/models/User';
+import { corsMiddleware, handleOptions } from '@/lib/cors';
+import { findAuthToken, markAuthTokenUsed, recordFailedAttempt } from '@/lib/auth-tokens';
+import { createSession, issueAccessToken } from '@/lib/sessions';
+import { MAX_CHALLENGE_ATTEMPTS, verifySecondFactor } from '@/lib/two-factor';
+import { clearFailures, enforceRateLimit, rateLimitResponse, recordFailure } from '@/lib/rate-limit';
+
+interface VerifyRequest {
+  challengeToken: string;
+  code: string;
+  deviceLabel?: string;
+}
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+// Second step of login for accounts with 2FA: exchanges the challenge token
+// returned by /api/auth/login plus a TOTP or recovery code for real tokens.
+export async function POST(_req: NextRequest) {
+  await dbConnect();
+
+  try {
+    const { challengeToken, code, deviceLabel }: VerifyRequest = await _req.json();
+
+    if (!challengeToken || !code) {
+      const response = NextResponse.json({ message: 'Challenge token and code are required' }, { status: 400 });
+      return corsMiddleware(_req, response);
+    }
+
+    const challenge = await findAuthToken(challengeToken, 'two_factor_challenge');
+
+    const rateLimit = await enforceRateLimit('two-factor', _req, challenge?.user.toString());
+    if (rateLimit.limited) {
+      return corsMiddleware(_req, rateLimitResponse(rateLimit));
+    }
+
+    if (!challenge) {
+      const response = NextResponse.json({ message: 'Invalid or expired challenge, please log in again' }, { status: 401 });
+      return corsMiddleware(_req, response);
+    }
+
+    const user = await User.findById(challenge.user) as IUser | null;
+    if (!user || user.banned) {
+      const response = NextResponse.json({ message: 'Invalid or expired challenge, please log in again' }, { status: 401 });
+      return corsMiddleware(_req, response);
+    }
+
+    const factor = await verifySecondFactor(user._id.toString(), String(code));
+    if (!factor) {
+      await recordFailedAttempt(challenge, MAX_CHALLENGE_ATTEMPTS);
+      await recordFailure('two-factor', user._id.toString());
+      console.log(`POST /api/auth/2fa/verify: Invalid code for user ${user._id}.`);
+      const response = NextResponse.json({ message: 'Invalid verification code' }, { status: 401 });
+      return corsMiddleware(_req, response);
+    }
+
+    await clearFailures('two-factor', user._id.toString());
+
+    if (!(await markAuthTokenUsed(challenge))) {
+      const response = NextResponse.json({ message: 'Invalid or expired challenge, please log in again' }, { status: 401 });
+      return corsMiddleware(_req, response);
+    }
+
+    const { session, refreshToken } = await createSession(user, _req, deviceLabel, true);
+    const token = issueAccessToken(user, session);
+    console.log(`POST /api/auth/2fa/verify: User ${user._id} logged in with ${factor === 'totp' ? 'an authenticator code' : 'a recovery code'}.`);
+
+    const response = NextResponse.json({
+      message: 'Login successful',
+      token,
+      refreshToken,
+      sessionId: session._id.toString(),
+      user: {
+        id: user._id.toString(),
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        profilePicture: user.profilePicture,
+        role: user.role,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: true,
+      },
+    }, { status: 200 });
+    return corsMiddleware(_req, response);
+  } catch (error) {
+    console.error('POST /api/auth/2fa/verify: Server error:', error);
+    const response = NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+    return corsMiddleware(_req, response);
+  }
+}
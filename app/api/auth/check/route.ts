@@ -1,55 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import User, { IUser } from '@/models/User';
-import connect from '@/lib/db/connect';
-import { verifyToken } from '@/lib/auth';
-import { corsMiddleware, handleOptions } from '@/lib/cors';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
 
-export async function OPTIONS() {
-  return handleOptions();
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
 }
 
-export async function GET(_req: NextRequest) {
-  try {
-    await connect();
-  } catch (dbError) {
-    console.error('Database connection failed for /api/auth/check:', dbError);
-    const response = NextResponse.json({ message: 'Database connection error' }, { status: 500 });
-    return corsMiddleware(_req, response);
-  }
-  console.log('Connected to MongoDB for /api/auth/check');
+export const GET = withAuth(async (_req: NextRequest, { auth }) => {
+  const user = auth.user!;
 
-  const authHeader = _req.headers.get('Authorization');
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    console.warn('No authorization header or invalid format.');
-    const response = NextResponse.json({ message: 'Unauthorized: No token provided' }, { status: 401 });
-    return corsMiddleware(_req, response);
-  }
-
-  const token = authHeader.split(' ')[1];
-
-  const decodedToken = verifyToken(token);
-
-  if (!decodedToken) {
-    console.warn('Token verification failed via utility.');
-    const response = NextResponse.json({ message: 'Unauthorized: Invalid or expired token' }, { status: 401 });
-    return corsMiddleware(_req, response);
-  }
-
-  const userId = decodedToken.id;
-  if (!userId) {
-    console.warn('Decoded token missing id.');
-    const response = NextResponse.json({ message: 'Unauthorized: Invalid token payload' }, { status: 401 });
-    return corsMiddleware(_req, response);
-  }
-
-  const user = await User.findById(userId).select('-password') as IUser | null;
-  if (!user || user.banned) {
-    console.warn('User not found or banned for provided token ID.');
-    const response = NextResponse.json({ message: 'Unauthorized: User not found or banned' }, { status: 401 });
-    return corsMiddleware(_req, response);
-  }
-
-  const response = NextResponse.json({
+  return NextResponse.json({
     message: 'Token is valid',
     user: {
       id: user._id.toString(),
@@ -59,8 +19,7 @@ export async function GET(_req: NextRequest) {
       profilePicture: user.profilePicture,
       role: user.role,
       banned: user.banned,
+      emailVerified: user.emailVerified,
     },
   }, { status: 200 });
-
-  return corsMiddleware(_req, response);
-}
\ No newline at end of file
+}, { loadUser: true });
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db/connect';
+import User, { IUser } from '@/models/User';
+import { corsMiddleware, handleOptions } from '@/lib/cors';
+import { createAuthToken } from '@/lib/auth-tokens';
+import { getConfig } from '@/lib/config';
+import { sendMail } from '@/lib/mail';
+import { passwordResetEmail } from '@/lib/mail/templates';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+
+const RESET_TOKEN_TTL_MINUTES = 30;
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export async function POST(_req: NextRequest) {
+  await dbConnect();
+
+  try {
+    const { email } = await _req.json();
+
+    if (!email || typeof email !== 'string') {
+      const response = NextResponse.json({ message: 'Email is required' }, { status: 400 });
+      return corsMiddleware(_req, response);
+    }
+
+    const rateLimit = await enforceRateLimit('forgot-password', _req, email);
+    if (rateLimit.limited) {
+      return corsMiddleware(_req, rateLimitResponse(rateLimit));
+    }
+
+    const user = await User.findOne({ email: email.trim().toLowerCase() }) as IUser | null;
+
+    // Respond the same way whether or not the account exists so the endpoint
+    // can't be used to discover registered addresses.
+    if (user && !user.banned) {
+      const token = await createAuthToken(user._id, 'password_reset', RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+      const { appUrl } = getConfig();
+      const resetUrl = `${appUrl}/reset-password?token=${token}`;
+      try {
+        await sendMail(passwordResetEmail(user, resetUrl, RESET_TOKEN_TTL_MINUTES));
+        console.log(`POST /api/auth/forgot-password: Reset link sent to user ${user._id}.`);
+      } catch (error) {
+        // A failure must not show up in the response, or it would reveal
+        // that the account exists.
+        console.error(`POST /api/auth/forgot-password: Failed to send reset link to user ${user._id}:`, error);
+      }
+    }
+
+    const response = NextResponse.json(
+      { message: 'If an account exists for that email, a reset link has been sent.' },
+      { status: 200 }
+    );
+    return corsMiddleware(_req, response);
+  } catch (error) {
+    console.error('POST /api/auth/forgot-password: Server error:', error);
+    const response = NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+    return corsMiddleware(_req, response);
+  }
+}
@@ -2,16 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db/connect';
 import User, { IUser } from '@/models/User';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { corsMiddleware, handleOptions } from '@/lib/cors';
+import { createSession, issueAccessToken } from '@/lib/sessions';
+import { canLogIn } from '@/lib/email-verification-policy';
+import { createAuthToken } from '@/lib/auth-tokens';
+import { CHALLENGE_TTL_MS } from '@/lib/two-factor';
+import { isAdminTwoFactorRequired } from '@/lib/auth';
+import { clearFailures, enforceRateLimit, rateLimitResponse, recordFailure } from '@/lib/rate-limit';
 
 interface LoginRequest {
   email: string;
   password: string;
+  deviceLabel?: string;
 }
 
-export async function OPTIONS() {
-  return handleOptions();
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
 }
 
 export async function POST(_req: NextRequest) {
@@ -20,7 +26,7 @@ export async function POST(_req: NextRequest) {
   console.log('POST /api/auth/login: Incoming login request.');
 
   try {
-    const { email, password }: LoginRequest = await _req.json();
+    const { email, password, deviceLabel }: LoginRequest = await _req.json();
     console.log('POST /api/auth/login: Request body parsed - Email:', email);
 
     if (!email || !password) {
@@ -29,9 +35,16 @@ export async function POST(_req: NextRequest) {
       return corsMiddleware(_req, response);
     }
 
+    const rateLimit = await enforceRateLimit('login', _req, email);
+    if (rateLimit.limited) {
+      console.log('POST /api/auth/login: Rate limit hit for email:', email, '. Returning 429.');
+      return corsMiddleware(_req, rateLimitResponse(rateLimit));
+    }
+
     const user = await User.findOne({ email }).select('+password') as IUser | null;
 
     if (!user) {
+      await recordFailure('login', email);
       console.log('POST /api/auth/login: User not found for email:', email, '. Returning 401.');
       const response = NextResponse.json({ message: 'Invalid credentials' }, { status: 401 });
       return corsMiddleware(_req, response);
@@ -46,11 +59,13 @@ export async function POST(_req: NextRequest) {
 
     const isMatch = await bcrypt.compare(password, user.password);
     if (!isMatch) {
+      await recordFailure('login', email);
       console.log('POST /api/auth/login: Password mismatch for email:', email, '. Returning 401.');
       const response = NextResponse.json({ message: 'Invalid credentials' }, { status: 401 });
       return corsMiddleware(_req, response);
     }
     console.log('POST /api/auth/login: Password matched for user:', user.email);
+    await clearFailures('login', email);
 
     if (user.banned) {
       console.log('POST /api/auth/login: User is banned:', user.email, '. Returning 403.');
@@ -58,25 +73,33 @@ export async function POST(_req: NextRequest) {
       return corsMiddleware(_req, response);
     }
 
-    console.log('POST /api/auth/login: JWT_SECRET (for signing):', process.env.JWT_SECRET ? '****** (present)' : 'NOT SET');
+    if (!canLogIn(user)) {
+      console.log('POST /api/auth/login: Email not verified for user:', user.email, '. Returning 403.');
+      const response = NextResponse.json({ message: 'Please verify your email address before logging in', emailVerified: false }, { status: 403 });
+      return corsMiddleware(_req, response);
+    }
 
-    const token = jwt.sign(
-      {
-        id: user._id.toString(),
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        profilePicture: user.profilePicture,
-        role: user.role,
-      },
-      process.env.JWT_SECRET as string,
-      { expiresIn: '1h' }
-    );
+    if (user.twoFactorEnabled) {
+      const challengeToken = await createAuthToken(user._id, 'two_factor_challenge', CHALLENGE_TTL_MS);
+      console.log('POST /api/auth/login: Two-factor challenge issued for user:', user.email);
+      const response = NextResponse.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken,
+      }, { status: 200 });
+      return corsMiddleware(_req, response);
+    }
+
+    const { session, refreshToken } = await createSession(user, _req, deviceLabel);
+    const token = issueAccessToken(user, session);
     console.log('POST /api/auth/login: Token generated successfully for user:', user.email, '. Token (first 10 chars):', token.substring(0, 10) + '...');
 
     const response = NextResponse.json({
       message: 'Login successful',
       token,
+      refreshToken,
+      sessionId: session._id.toString(),
+      twoFactorSetupRequired: user.role === 'admin' && isAdminTwoFactorRequired(),
       user: {
         id: user._id.toString(),
         firstName: user.firstName,
@@ -84,6 +107,8 @@ export async function POST(_req: NextRequest) {
         email: user.email,
         profilePicture: user.profilePicture,
         role: user.role,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: false,
       },
     }, { status: 200 });
 
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Session, { ISession } from '@/models/Session';
+import { denyToken, withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { revokeSessionFamily } from '@/lib/sessions';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const POST = withAuth(async (_req: NextRequest, { auth }) => {
+  const { claims } = auth;
+
+  try {
+    if (claims.jti && claims.exp) {
+      denyToken(claims.jti, claims.exp * 1000);
+    }
+
+    if (claims.sessionId) {
+      const session = await Session.findOne({ _id: claims.sessionId, user: auth.userId }) as ISession | null;
+      if (session) {
+        await revokeSessionFamily(session.familyId, 'logout');
+      }
+    }
+
+    console.log(`POST /api/auth/logout: User ${auth.userId} logged out of session ${claims.sessionId ?? '(none)'}.`);
+    return NextResponse.json({ message: 'Logged out successfully' }, { status: 200 });
+  } catch (error) {
+    console.error('POST /api/auth/logout: Server error during logout:', error);
+    return NextResponse.json({ message: 'Internal server error during logout' }, { status: 500 });
+  }
+});
@@ -1,17 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateToken, verifyToken } from '@/lib/auth';
 import dbConnect from '@/lib/db/connect';
 import User, { IUser } from '@/models/User';
 import { corsMiddleware, handleOptions } from '@/lib/cors';
+import { issueAccessToken, revokeSessionFamily, rotateSession } from '@/lib/sessions';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
 
-export async function OPTIONS() {
-  return handleOptions();
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
 }
 
 export async function POST(_req: NextRequest) {
   await dbConnect();
 
   try {
+    const rateLimit = await enforceRateLimit('refresh', _req);
+    if (rateLimit.limited) {
+      return corsMiddleware(_req, rateLimitResponse(rateLimit));
+    }
+
     const { refreshToken } = await _req.json();
     if (!refreshToken) {
       const response = NextResponse.json(
@@ -21,17 +27,19 @@ export async function POST(_req: NextRequest) {
       return corsMiddleware(_req, response);
     }
 
-    const decoded = verifyToken(refreshToken, true);
-    if (!decoded || !decoded.userId) {
+    const result = await rotateSession(refreshToken, _req);
+    if ('error' in result) {
       const response = NextResponse.json(
-        { message: 'Invalid refresh token' },
+        { message: result.error },
         { status: 401 }
       );
       return corsMiddleware(_req, response);
     }
 
-    const user = await User.findById(decoded.userId).select('+refreshToken').exec() as IUser | null;
-    if (!user || user.refreshToken !== refreshToken) {
+    const { session, refreshToken: newRefreshToken } = result;
+    const user = await User.findById(session.user) as IUser | null;
+    if (!user || user.banned) {
+      await revokeSessionFamily(session.familyId, 'revoked');
       const response = NextResponse.json(
         { message: 'Invalid refresh token' },
         { status: 401 }
@@ -39,15 +47,7 @@ export async function POST(_req: NextRequest) {
       return corsMiddleware(_req, response);
     }
 
-    const newToken = generateToken({ userId: user._id.toString() });
-    const newRefreshToken = generateToken(
-      { userId: user._id.toString() },
-      '7d',
-      true
-    );
-
-    user.refreshToken = newRefreshToken;
-    await user.save();
+    const newToken = issueAccessToken(user, session);
 
     const response = NextResponse.json({
       token: newToken,
@@ -63,4 +63,4 @@ export async function POST(_req: NextRequest) {
     );
     return corsMiddleware(_req, response);
   }
-}
\ No newline at end of file
+}
@@ -2,15 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db/connect';
 import User from '@/models/User';
 import { corsMiddleware, handleOptions } from '@/lib/cors';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
 
-export async function OPTIONS() {
-  return handleOptions();
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
 }
 
 export async function POST(_req: NextRequest) {
   await dbConnect();
 
   try {
+    const rateLimit = await enforceRateLimit('register', _req);
+    if (rateLimit.limited) {
+      return corsMiddleware(_req, rateLimitResponse(rateLimit));
+    }
+
     const { firstName, lastName, email, password } = await _req.json();
 
     if (!firstName || !lastName || !email || !password) {
@@ -34,6 +41,13 @@ export async function POST(_req: NextRequest) {
       banned: false,
     });
 
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (mailError) {
+      // The account exists either way; the user can ask for a new email.
+      console.error('Registration: failed to send verification email:', mailError);
+    }
+
     const response = NextResponse.json({ message: 'User registered successfully', userId: newUser._id }, { status: 201 });
     return corsMiddleware(_req, response);
   } catch (error: unknown) {
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db/connect';
+import User, { IUser } from '@/models/User';
+import { corsMiddleware, handleOptions } from '@/lib/cors';
+import { getResendCooldown, sendVerificationEmail } from '@/lib/email-verification';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+// Takes an email rather than a token: under the block_login policy an
+// unverified user has no way to obtain one.
+export async function POST(_req: NextRequest) {
+  await dbConnect();
+
+  try {
+    const { email } = await _req.json();
+
+    if (!email || typeof email !== 'string') {
+      const response = NextResponse.json({ message: 'Email is required' }, { status: 400 });
+      return corsMiddleware(_req, response);
+    }
+
+    const rateLimit = await enforceRateLimit('resend-verification', _req, email);
+    if (rateLimit.limited) {
+      return corsMiddleware(_req, rateLimitResponse(rateLimit));
+    }
+
+    const user = await User.findOne({ email: email.trim().toLowerCase() }) as IUser | null;
+
+    // During the cooldown nothing is sent, but the response stays the same so
+    // it does not reveal that the account exists.
+    if (user && !user.banned && !user.emailVerified) {
+      const cooldownMs = await getResendCooldown(user._id.toString());
+      if (cooldownMs > 0) {
+        console.log(`POST /api/auth/resend-verification: Resend for user ${user._id} skipped during cooldown.`);
+      } else {
+        await sendVerificationEmail(user);
+        console.log(`POST /api/auth/resend-verification: Verification email re-sent to user ${user._id}.`);
+      }
+    }
+
+    const response = NextResponse.json(
+      { message: 'If an unverified account exists for that email, a verification link has been sent.' },
+      { status: 200 }
+    );
+    return corsMiddleware(_req, response);
+  } catch (error) {
+    console.error('POST /api/auth/resend-verification: Server error:', error);
+    const response = NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+    return corsMiddleware(_req, response);
+  }
+}
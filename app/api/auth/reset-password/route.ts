@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db/connect';
+import User, { IUser } from '@/models/User';
+import { corsMiddleware, handleOptions } from '@/lib/cors';
+import { consumeAuthToken } from '@/lib/auth-tokens';
+import { revokeUserSessions } from '@/lib/sessions';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+
+interface MongoError {
+  name?: string;
+  errors?: Record<string, { message: string }>;
+}
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export async function POST(_req: NextRequest) {
+  await dbConnect();
+
+  try {
+    const rateLimit = await enforceRateLimit('reset-password', _req);
+    if (rateLimit.limited) {
+      return corsMiddleware(_req, rateLimitResponse(rateLimit));
+    }
+
+    const { token, password } = await _req.json();
+
+    if (!token || !password) {
+      const response = NextResponse.json({ message: 'Token and new password are required' }, { status: 400 });
+      return corsMiddleware(_req, response);
+    }
+
+    if (typeof password !== 'string' || password.length < 6) {
+      const response = NextResponse.json({ message: 'Password must be at least 6 characters long' }, { status: 400 });
+      return corsMiddleware(_req, response);
+    }
+
+    const userId = await consumeAuthToken(token, 'password_reset');
+    if (!userId) {
+      const response = NextResponse.json({ message: 'Invalid or expired reset token' }, { status: 400 });
+      return corsMiddleware(_req, response);
+    }
+
+    const user = await User.findById(userId) as IUser | null;
+    if (!user || user.banned) {
+      const response = NextResponse.json({ message: 'Invalid or expired reset token' }, { status: 400 });
+      return corsMiddleware(_req, response);
+    }
+
+    user.password = password;
+    await user.save();
+
+    const revoked = await revokeUserSessions(userId, 'password_reset');
+    console.log(`POST /api/auth/reset-password: Password reset for user ${userId}; revoked ${revoked} session(s).`);
+
+    const response = NextResponse.json({ message: 'Password has been reset. Please log in again.' }, { status: 200 });
+    return corsMiddleware(_req, response);
+  } catch (error: unknown) {
+    const mongoError = error as MongoError;
+    if (mongoError.name === 'ValidationError') {
+      const messages = Object.values(mongoError.errors || {}).map((err) => err.message);
+      const response = NextResponse.json({ message: 'Validation Error', errors: messages }, { status: 400 });
+      return corsMiddleware(_req, response);
+    }
+    console.error('POST /api/auth/reset-password: Server error:', error);
+    const response = NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+    return corsMiddleware(_req, response);
+  }
+}
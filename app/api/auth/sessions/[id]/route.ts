@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import Session, { ISession } from '@/models/Session';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { revokeSessionFamily } from '@/lib/sessions';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const DELETE = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id } = await params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ message: 'Invalid session ID format' }, { status: 400 });
+  }
+
+  try {
+    const session = await Session.findOne({ _id: id, user: auth.userId }) as ISession | null;
+    if (!session || session.revokedAt) {
+      return NextResponse.json({ message: 'Session not found' }, { status: 404 });
+    }
+
+    await revokeSessionFamily(session.familyId, 'revoked');
+    return NextResponse.json({ message: 'Session revoked' }, { status: 200 });
+  } catch (error) {
+    console.error(`DELETE /api/auth/sessions/${id}: Error revoking session:`, error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
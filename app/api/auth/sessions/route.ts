@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Session, { ISession } from '@/models/Session';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { revokeUserSessions } from '@/lib/sessions';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const GET = withAuth(async (_req: NextRequest, { auth }) => {
+  const currentSessionId = auth.claims.sessionId;
+
+  try {
+    const sessions = await Session.find({
+      user: auth.userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    })
+      .sort({ lastUsedAt: -1 })
+      .lean() as ISession[];
+
+    return NextResponse.json({
+      sessions: sessions.map((session) => ({
+        id: session._id.toString(),
+        deviceLabel: session.deviceLabel,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session._id.toString() === currentSessionId,
+      })),
+    }, { status: 200 });
+  } catch (error) {
+    console.error('GET /api/auth/sessions: Error listing sessions:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
+
+// Revokes every session of the caller except the one the request came from.
+export const DELETE = withAuth(async (_req: NextRequest, { auth }) => {
+  const currentSessionId = auth.claims.sessionId;
+  if (!currentSessionId) {
+    return NextResponse.json({ message: 'Token is not bound to a session' }, { status: 400 });
+  }
+
+  try {
+    const revoked = await revokeUserSessions(auth.userId, 'revoked', currentSessionId);
+    return NextResponse.json({ message: 'Other sessions revoked', revoked }, { status: 200 });
+  } catch (error) {
+    console.error('DELETE /api/auth/sessions: Error revoking sessions:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
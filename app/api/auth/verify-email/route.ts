@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db/connect';
+import User, { IUser } from '@/models/User';
+import { corsMiddleware, handleOptions } from '@/lib/cors';
+import { consumeAuthToken } from '@/lib/auth-tokens';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export async function POST(_req: NextRequest) {
+  await dbConnect();
+
+  try {
+    const { token } = await _req.json();
+
+    if (!token) {
+      const response = NextResponse.json({ message: 'Verification token is required' }, { status: 400 });
+      return corsMiddleware(_req, response);
+    }
+
+    const userId = await consumeAuthToken(token, 'email_verification');
+    if (!userId) {
+      const response = NextResponse.json({ message: 'Invalid or expired verification token' }, { status: 400 });
+      return corsMiddleware(_req, response);
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $set: { emailVerified: true, emailVerifiedAt: new Date() } },
+      { new: true }
+    ) as IUser | null;
+
+    if (!user) {
+      const response = NextResponse.json({ message: 'Invalid or expired verification token' }, { status: 400 });
+      return corsMiddleware(_req, response);
+    }
+
+    console.log(`POST /api/auth/verify-email: Email verified for user ${userId}.`);
+    const response = NextResponse.json({ message: 'Email verified successfully', emailVerified: true }, { status: 200 });
+    return corsMiddleware(_req, response);
+  } catch (error) {
+    console.error('POST /api/auth/verify-email: Server error:', error);
+    const response = NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+    return corsMiddleware(_req, response);
+  }
+}
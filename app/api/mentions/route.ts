@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { DEFAULT_MENTIONS_PAGE_SIZE, listMentions, markMentionsRead } from '@/lib/mentions';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const GET = withAuth(async (_req: NextRequest, { auth }) => {
+  try {
+    const { searchParams } = _req.nextUrl;
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_MENTIONS_PAGE_SIZE), 10);
+    const skip = parseInt(searchParams.get('skip') || '0', 10);
+
+    const result = await listMentions(auth.userId, {
+      limit: Number.isNaN(limit) ? undefined : limit,
+      skip: Number.isNaN(skip) ? undefined : skip,
+      unreadOnly: searchParams.get('unread') === 'true',
+    });
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('GET /api/mentions: Error fetching mentions:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
+
+// Body: { mentionIds?: string[] }; without ids every mention is marked read.
+export const PATCH = withAuth(async (_req: NextRequest, { auth }) => {
+  try {
+    const body = await _req.json().catch(() => ({}));
+    const { mentionIds } = body as { mentionIds?: unknown };
+    if (
+      mentionIds !== undefined &&
+      (!Array.isArray(mentionIds) || !mentionIds.every((id) => typeof id === 'string'))
+    ) {
+      return NextResponse.json({ message: 'mentionIds must be an array of strings' }, { status: 400 });
+    }
+
+    const result = await markMentionsRead(auth.userId, mentionIds as string[] | undefined);
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('PATCH /api/mentions: Error marking mentions read:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { getEditHistory } from '@/lib/message-edits';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const GET = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id } = await params;
+
+  try {
+    const result = await getEditHistory(id, { userId: auth.userId, role: auth.role });
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error(`GET /api/messages/${id}/history: Error fetching edit history:`, error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
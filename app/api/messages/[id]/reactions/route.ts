@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { addReaction, removeReaction } from '@/lib/reactions';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const POST = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id } = await params;
+
+  try {
+    const { emoji } = await _req.json();
+    const result = await addReaction(id, auth.userId, emoji);
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error(`POST /api/messages/${id}/reactions: Error adding reaction:`, error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
+
+// The emoji is passed as ?emoji= since DELETE bodies are not reliably sent.
+export const DELETE = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id } = await params;
+
+  try {
+    const emoji = _req.nextUrl.searchParams.get('emoji');
+    const result = await removeReaction(id, auth.userId, emoji);
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error(`DELETE /api/messages/${id}/reactions: Error removing reaction:`, error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
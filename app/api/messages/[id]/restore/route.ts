@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { restoreMessage } from '@/lib/message-service';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const POST = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id } = await params;
+
+  try {
+    const result = await restoreMessage(id, { userId: auth.userId, role: auth.role });
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error(`POST /api/messages/${id}/restore: Error restoring message:`, error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}, { roles: ['admin'] });
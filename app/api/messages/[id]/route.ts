@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { deleteMessage, editMessage } from '@/lib/message-service';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+// The reason is passed as ?reason= since DELETE bodies are not reliably sent.
+export const DELETE = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id } = await params;
+
+  try {
+    const reason = _req.nextUrl.searchParams.get('reason') || undefined;
+    const result = await deleteMessage(id, { userId: auth.userId, role: auth.role }, reason);
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error(`DELETE /api/messages/${id}: Error deleting message:`, error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
+
+// Edits the text of the caller's own message, like the editMessage socket event.
+export const PATCH = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id } = await params;
+
+  try {
+    const { text } = await _req.json();
+    const result = await editMessage(id, auth.userId, text);
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error(`PATCH /api/messages/${id}: Error editing message:`, error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
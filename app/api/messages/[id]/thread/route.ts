@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { DEFAULT_PAGE_SIZE } from '@/lib/message-pagination';
+import { getThread } from '@/lib/threads';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+// GET /api/messages/[id]/thread?before=&after=&around=&limit=
+// Replies come newest first, paged like conversation history.
+export const GET = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id } = await params;
+
+  try {
+    const { searchParams } = _req.nextUrl;
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_PAGE_SIZE), 10);
+
+    const result = await getThread(id, auth.userId, {
+      before: searchParams.get('before'),
+      after: searchParams.get('after'),
+      around: searchParams.get('around'),
+      limit: Number.isNaN(limit) ? undefined : limit,
+    });
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error(`GET /api/messages/${id}/thread: Error fetching thread:`, error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { getPrivatePins } from '@/lib/pins';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const GET = withAuth<{ userId: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { userId } = await params;
+
+  try {
+    const result = await getPrivatePins(auth.userId, userId);
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('GET /api/messages/private/[userId]/pins: Error fetching pinned messages:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -1,136 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
-import dbConnect from '@/lib/db/connect';
-import Message, { IMessage } from '@/models/Message';
-import mongoose from 'mongoose';
-import { corsMiddleware, handleOptions } from '@/lib/cors';
+import { handleOptions } from '@/lib/cors';
+import { withAuth } from '@/lib/auth';
+import { DEFAULT_PAGE_SIZE } from '@/lib/message-pagination';
+import { Conversation, listMessages } from '@/lib/message-service';
 
-interface PopulatedMessage {
-  _id: mongoose.Types.ObjectId;
-  sender: {
-    _id: mongoose.Types.ObjectId;
-    firstName: string;
-    lastName: string;
-    profilePicture?: string;
-  };
-  receiver?: mongoose.Types.ObjectId;
-  receiverFirstName?: string;
-  receiverLastName?: string;
-  text?: string;
-  chatType: 'room' | 'private';
-  room?: string;
-  createdAt: Date;
-  isEdited: boolean;
-  fileUrl?: string;
-  fileType?: IMessage['fileType'];
-  fileName?: string;
-  replyTo?: {
-    id: mongoose.Types.ObjectId;
-    sender: string;
-    text?: string;
-    fileUrl?: string;
-    fileType?: string;
-    fileName?: string;
-  };
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
 }
 
-interface FormattedMessage {
-  id: string;
-  senderId: string;
-  sender: string;
-  senderProfilePicture: string;
-  text?: string;
-  timestamp: string;
-  isEdited: boolean;
-  chatType: IMessage['chatType'];
-  room?: string;
-  receiverId?: string;
-  receiverUsername?: string;
-  fileUrl?: string;
-  fileType?: IMessage['fileType'];
-  fileName?: string;
-  replyTo?: {
-    id: string;
-    sender: string;
-    text?: string;
-    fileUrl?: string;
-    fileType?: string;
-    fileName?: string;
-  };
-}
-
-export async function OPTIONS() {
-  return handleOptions();
-}
-
-export async function GET(_req: NextRequest) {
-  await dbConnect();
-
+export const GET = withAuth(async (_req: NextRequest, { auth }) => {
   try {
     const { searchParams } = new URL(_req.url);
     const room = searchParams.get('room');
-    const limit = parseInt(searchParams.get('limit') || '50', 10);
-    const skip = parseInt(searchParams.get('skip') || '0', 10);
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_PAGE_SIZE), 10);
     const receiverId = searchParams.get('receiverId');
     const senderId = searchParams.get('senderId');
 
-    const query: { room?: string; chatType?: 'room' | 'private'; $or?: Array<{ sender: string; receiver: string }> } = {};
+    let conversation: Conversation;
     if (room) {
-      query.room = room;
-      query.chatType = 'room';
+      conversation = { room };
     } else if (senderId && receiverId) {
-      query.$or = [
-        { sender: senderId, receiver: receiverId },
-        { sender: receiverId, receiver: senderId },
-      ];
-      query.chatType = 'private';
+      // Private history is only readable by the two participants.
+      if (senderId !== auth.userId && receiverId !== auth.userId) {
+        return NextResponse.json({ message: 'You can only read your own conversations' }, { status: 403 });
+      }
+      conversation = { partnerId: senderId === auth.userId ? receiverId : senderId };
     } else {
-      const response = NextResponse.json({ message: 'Room or sender/receiver parameters are required' }, { status: 400 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'Room or sender/receiver parameters are required' }, { status: 400 });
     }
 
-    const messages = await Message.find(query)
-      .sort({ createdAt: 1 })
-      .skip(skip)
-      .limit(limit)
-      .populate({
-        path: 'sender',
-        select: 'firstName lastName profilePicture',
-      })
-      .select('text sender firstName lastName receiver receiverFirstName receiverLastName chatType createdAt isEdited fileUrl fileType fileName replyTo')
-      .lean() as unknown as PopulatedMessage[];
-
-    const formattedMessages: FormattedMessage[] = messages.map((msg) => ({
-      id: msg._id.toString(),
-      senderId: msg.sender._id.toString(),
-      sender: `${msg.sender.firstName} ${msg.sender.lastName}`,
-      senderProfilePicture: msg.sender.profilePicture || '/default-avatar.png',
-      text: msg.text || undefined,
-      timestamp: msg.createdAt.toISOString(),
-      isEdited: msg.isEdited || false,
-      chatType: msg.chatType,
-      room: msg.room || undefined,
-      receiverId: msg.receiver ? msg.receiver.toString() : undefined,
-      receiverUsername: msg.receiverFirstName && msg.receiverLastName ? `${msg.receiverFirstName} ${msg.receiverLastName}` : undefined,
-      fileUrl: msg.fileUrl || undefined,
-      fileType: msg.fileType || undefined,
-      fileName: msg.fileName || undefined,
-      replyTo: msg.replyTo
-        ? {
-            id: msg.replyTo.id.toString(),
-            sender: msg.replyTo.sender,
-            text: msg.replyTo.text || undefined,
-            fileUrl: msg.replyTo.fileUrl || undefined,
-            fileType: msg.replyTo.fileType || undefined,
-            fileName: msg.replyTo.fileName || undefined,
-          }
-        : undefined,
-    }));
+    const page = await listMessages(auth.userId, conversation, {
+      before: searchParams.get('before'),
+      after: searchParams.get('after'),
+      around: searchParams.get('around'),
+      limit: Number.isNaN(limit) ? undefined : limit,
+    });
+    if ('error' in page) {
+      return NextResponse.json({ message: page.error }, { status: page.status });
+    }
 
-    const response = NextResponse.json({ messages: formattedMessages }, { status: 200 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json({
+      messages: page.messages,
+      hasMore: page.hasMore,
+      hasMoreBefore: page.hasMoreBefore,
+      hasMoreAfter: page.hasMoreAfter,
+    }, { status: 200 });
   } catch (error) {
     console.error('Error fetching messages:', error);
-    const response = NextResponse.json({ message: 'Internal server error' }, { status: 500 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+});
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { cancelScheduledMessage, updateScheduledMessage } from '@/lib/scheduled-messages';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+// Body: any of { sendAt, text, fileUrl, fileType, fileName }. Only pending
+// messages can be changed.
+export const PATCH = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id } = await params;
+
+  try {
+    const { sendAt, text, fileUrl, fileType, fileName } = await _req.json();
+    const result = await updateScheduledMessage(id, auth.userId, { sendAt, text, fileUrl, fileType, fileName });
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ scheduled: result }, { status: 200 });
+  } catch (error) {
+    console.error(`PATCH /api/messages/scheduled/${id}: Error updating scheduled message:`, error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
+
+export const DELETE = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id } = await params;
+
+  try {
+    const result = await cancelScheduledMessage(id, auth.userId);
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ scheduled: result }, { status: 200 });
+  } catch (error) {
+    console.error(`DELETE /api/messages/scheduled/${id}: Error cancelling scheduled message:`, error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import User, { IUser } from '@/models/User';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { listScheduledMessages, scheduleMessage } from '@/lib/scheduled-messages';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const GET = withAuth(async (_req: NextRequest, { auth }) => {
+  try {
+    const result = await listScheduledMessages(auth.userId);
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('GET /api/messages/scheduled: Error fetching scheduled messages:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
+
+// Body: { room | receiverId, sendAt, text?, fileUrl?, fileType?, fileName?, replyToId? }
+export const POST = withAuth(async (_req: NextRequest, { auth }) => {
+  try {
+    const { room, receiverId, sendAt, text, fileUrl, fileType, fileName, replyToId } = await _req.json();
+
+    const sender = await User.findById(auth.userId) as IUser | null;
+    if (!sender) {
+      return NextResponse.json({ message: 'Sender user not found' }, { status: 404 });
+    }
+
+    const result = await scheduleMessage(sender, { room, receiverId, sendAt, text, fileUrl, fileType, fileName, replyToId });
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ scheduled: result }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/messages/scheduled: Error scheduling message:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -1,11 +1,15 @@
 // WHISPR-BACKEND/app/api/online/route.ts
-import { NextResponse } from "next/server";
-import connect from "@/lib/db/connect";
+import { NextRequest, NextResponse } from "next/server";
 import User from "@/models/User";
+import { withAuth } from "@/lib/auth";
+import { handleOptions } from "@/lib/cors";
 
-export async function GET() {
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const GET = withAuth(async () => {
   try {
-    await connect();
     const onlineUsers = await User.find({ isOnline: true })
       .select("_id firstName lastName profilePicture")
       .lean();
@@ -21,4 +25,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
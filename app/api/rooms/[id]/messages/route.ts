@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import Room, { IRoom } from '@/models/Room';
+import User, { IUser } from '@/models/User';
+import { handleOptions } from '@/lib/cors';
+import { withAuth } from '@/lib/auth';
+import { sendRoomMessage } from '@/lib/message-service';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+// Posts a message to a room, with the same checks as the sendMessage socket
+// event. The message is broadcast to the sockets in the room as
+// receiveMessage.
+export const POST = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id: roomId } = await params;
+
+  try {
+    if (!mongoose.Types.ObjectId.isValid(roomId)) {
+      return NextResponse.json({ message: 'Invalid room ID format' }, { status: 400 });
+    }
+
+    const { id, text, fileUrl, fileType, fileName, replyTo } = await _req.json();
+
+    const room = await Room.findById(roomId).select('name') as IRoom | null;
+    if (!room) {
+      console.log(`POST /api/rooms/${roomId}/messages: Room not found. Returning 404.`);
+      return NextResponse.json({ message: 'Room not found' }, { status: 404 });
+    }
+
+    const sender = await User.findById(auth.userId) as IUser | null;
+    if (!sender) {
+      console.log(`POST /api/rooms/${roomId}/messages: Sender user not found with ID: ${auth.userId}. Returning 404.`);
+      return NextResponse.json({ message: 'Sender user not found' }, { status: 404 });
+    }
+
+    const result = await sendRoomMessage(sender, room.name, { id, text, fileUrl, fileType, fileName, replyTo });
+    if ('error' in result) {
+      console.log(`POST /api/rooms/${roomId}/messages: ${result.error} Returning ${result.status}.`);
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    if (result.duplicate) {
+      console.log(`POST /api/rooms/${roomId}/messages: Message ${result.message.id} was already sent with client id ${id}. Returning it.`);
+      return NextResponse.json({ message: result.message, duplicate: true }, { status: 200 });
+    }
+
+    console.log(`POST /api/rooms/${roomId}/messages: Message saved successfully. Message ID:`, result.message.id);
+    return NextResponse.json({ message: result.message }, { status: 201 });
+  } catch (error) {
+    console.error(`POST /api/rooms/${roomId}/messages: Server error sending room message:`, error);
+    return NextResponse.json({ message: 'Server error sending room message' }, { status: 500 });
+  }
+});
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { getRoomPins } from '@/lib/pins';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const GET = withAuth<{ id: string }>(async (_req: NextRequest, { params }) => {
+  const { id } = await params;
+
+  try {
+    const result = await getRoomPins(id);
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error(`GET /api/rooms/${id}/pins: Error fetching pinned messages:`, error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
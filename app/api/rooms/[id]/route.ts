@@ -1,37 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import dbConnect from '@/lib/db/connect';
-import jwt from 'jsonwebtoken';
 import Room, { IRoom } from '@/models/Room';
 import { uploadFileToCloudinary, deleteFileFromCloudinary, getCloudinaryResourceType } from '@/lib/cloudinary-upload';
-import { corsMiddleware, handleOptions } from '@/lib/cors';
-
-interface DecodedToken {
-  userId: string;
-  role: 'user' | 'admin';
-}
+import { handleOptions } from '@/lib/cors';
+import { withAuth } from '@/lib/auth';
 
 interface MongoError {
   name?: string;
   errors?: Record<string, { message: string }>;
 }
 
-async function verifyToken(req: NextRequest): Promise<{ userId: string; role: 'user' | 'admin' } | { error: string; status: number }> {
-  const authHeader = req.headers.get('authorization');
-  const token = authHeader && authHeader.split(' ')[1];
-
-  if (!token) {
-    return { error: 'No token provided', status: 401 };
-  }
-
-  try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as DecodedToken;
-    return { userId: decoded.userId, role: decoded.role || 'user' };
-  } catch (error) {
-    console.error('Token verification failed:', error);
-    return { error: 'Invalid or expired token', status: 401 };
-  }
-}
-
 function getErrorMessage(error: unknown): string {
   if (error instanceof Error) {
     return error.message;
@@ -39,28 +16,16 @@ function getErrorMessage(error: unknown): string {
   return String(error);
 }
 
-export async function OPTIONS() {
-  return handleOptions();
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
 }
 
-export async function PUT(_req: NextRequest) {
-  await dbConnect();
-
-  const roomId = _req.nextUrl.pathname.split('/').pop();
-  if (!roomId) {
-    const response = NextResponse.json({ message: 'Room ID is required' }, { status: 400 });
-    return corsMiddleware(_req, response);
-  }
+export const PUT = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id: roomId } = await params;
   console.log(`PUT /api/rooms/${roomId}: Incoming request to update room.`);
 
-  const authResult = await verifyToken(_req);
-  if ('error' in authResult) {
-    console.log(`PUT /api/rooms/${roomId}: Authentication failed - ${authResult.error}. Returning ${authResult.status}.`);
-    const response = NextResponse.json({ message: authResult.error }, { status: authResult.status });
-    return corsMiddleware(_req, response);
-  }
 
-  const { userId: currentUserId, role: currentUserRole } = authResult;
+  const { userId: currentUserId, role: currentUserRole } = auth;
   console.log(`PUT /api/rooms/${roomId}: User ${currentUserId} (${currentUserRole}) authenticated.`);
 
   let requestData: FormData;
@@ -68,8 +33,7 @@ export async function PUT(_req: NextRequest) {
     requestData = await _req.formData();
   } catch (error: unknown) {
     console.error(`PUT /api/rooms/${roomId}: Failed to parse form data:`, getErrorMessage(error));
-    const response = NextResponse.json({ message: 'Invalid form data in request body.' }, { status: 400 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json({ message: 'Invalid form data in request body.' }, { status: 400 });
   }
 
   const name = requestData.get('roomName')?.toString();
@@ -79,8 +43,7 @@ export async function PUT(_req: NextRequest) {
 
   if (!name || name.trim() === '') {
     console.log(`PUT /api/rooms/${roomId}: Room name is required. Returning 400.`);
-    const response = NextResponse.json({ message: 'Room name is required.' }, { status: 400 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json({ message: 'Room name is required.' }, { status: 400 });
   }
 
   try {
@@ -88,8 +51,7 @@ export async function PUT(_req: NextRequest) {
 
     if (!room) {
       console.log(`PUT /api/rooms/${roomId}: Room not found. Returning 404.`);
-      const response = NextResponse.json({ message: 'Room not found.' }, { status: 404 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'Room not found.' }, { status: 404 });
     }
 
     const isCreator = room.creator && room.creator.toString() === currentUserId;
@@ -97,8 +59,7 @@ export async function PUT(_req: NextRequest) {
 
     if (!isCreator && !isAdmin) {
       console.log(`PUT /api/rooms/${roomId}: Unauthorized access by user ${currentUserId}. Returning 403.`);
-      const response = NextResponse.json({ message: 'Forbidden: Only the room creator or an admin can update this room.' }, { status: 403 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'Forbidden: Only the room creator or an admin can update this room.' }, { status: 403 });
     }
 
     const updateFields: Partial<IRoom> = {};
@@ -134,50 +95,33 @@ export async function PUT(_req: NextRequest) {
 
     if (!updatedRoom) {
       console.error(`PUT /api/rooms/${roomId}: Room disappeared during update.`);
-      const response = NextResponse.json({ message: 'Room update failed, room not found after initial check.' }, { status: 500 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'Room update failed, room not found after initial check.' }, { status: 500 });
     }
 
     console.log(`PUT /api/rooms/${roomId}: Room updated successfully with ID: ${updatedRoom._id}.`);
-    const response = NextResponse.json(updatedRoom, { status: 200 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json(updatedRoom, { status: 200 });
   } catch (error: unknown) {
     const mongoError = error as MongoError;
     if (mongoError.name === 'CastError') {
       console.error(`PUT /api/rooms/${roomId}: Invalid Room ID format.`, error);
-      const response = NextResponse.json({ message: 'Invalid room ID format.' }, { status: 400 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'Invalid room ID format.' }, { status: 400 });
     }
     if (mongoError.name === 'ValidationError') {
       const messages = Object.values(mongoError.errors || {}).map((err) => (err as { message: string }).message);
       console.error(`PUT /api/rooms/${roomId}: Validation error:`, messages);
-      const response = NextResponse.json({ message: 'Validation Error', errors: messages }, { status: 400 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'Validation Error', errors: messages }, { status: 400 });
     }
     console.error(`PUT /api/rooms/${roomId}: Server error during room update:`, getErrorMessage(error));
-    const response = NextResponse.json({ message: 'Internal server error' }, { status: 500 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
   }
-}
-
-export async function DELETE(_req: NextRequest) {
-  await dbConnect();
+});
 
-  const roomId = _req.nextUrl.pathname.split('/').pop();
-  if (!roomId) {
-    const response = NextResponse.json({ message: 'Room ID is required' }, { status: 400 });
-    return corsMiddleware(_req, response);
-  }
+export const DELETE = withAuth<{ id: string }>(async (_req: NextRequest, { params, auth }) => {
+  const { id: roomId } = await params;
   console.log(`DELETE /api/rooms/${roomId}: Incoming request to delete room.`);
 
-  const authResult = await verifyToken(_req);
-  if ('error' in authResult) {
-    console.log(`DELETE /api/rooms/${roomId}: Authentication failed - ${authResult.error}. Returning ${authResult.status}.`);
-    const response = NextResponse.json({ message: authResult.error }, { status: authResult.status });
-    return corsMiddleware(_req, response);
-  }
 
-  const { userId: currentUserId, role: currentUserRole } = authResult;
+  const { userId: currentUserId, role: currentUserRole } = auth;
   console.log(`DELETE /api/rooms/${roomId}: User ${currentUserId} (${currentUserRole}) authenticated.`);
 
   try {
@@ -185,8 +129,7 @@ export async function DELETE(_req: NextRequest) {
 
     if (!room) {
       console.log(`DELETE /api/rooms/${roomId}: Room not found. Returning 404.`);
-      const response = NextResponse.json({ message: 'Room not found.' }, { status: 404 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'Room not found.' }, { status: 404 });
     }
 
     const isCreator = room.creator.toString() === currentUserId;
@@ -194,8 +137,7 @@ export async function DELETE(_req: NextRequest) {
 
     if (!isCreator && !isAdmin) {
       console.log(`DELETE /api/rooms/${roomId}: Unauthorized access by user ${currentUserId}. Returning 403.`);
-      const response = NextResponse.json({ message: 'Forbidden: Only the room creator or an admin can delete this room.' }, { status: 403 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'Forbidden: Only the room creator or an admin can delete this room.' }, { status: 403 });
     }
 
     if (room.roomPicture && room.roomPicture !== '/default-room-avatar.png') {
@@ -205,17 +147,14 @@ export async function DELETE(_req: NextRequest) {
 
     await room.deleteOne();
     console.log(`DELETE /api/rooms/${roomId}: Room deleted successfully.`);
-    const response = NextResponse.json({ message: 'Room deleted successfully.' }, { status: 200 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json({ message: 'Room deleted successfully.' }, { status: 200 });
   } catch (error: unknown) {
     const mongoError = error as MongoError;
     if (mongoError.name === 'CastError') {
       console.error(`DELETE /api/rooms/${roomId}: Invalid Room ID format.`, error);
-      const response = NextResponse.json({ message: 'Invalid room ID format.' }, { status: 400 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'Invalid room ID format.' }, { status: 400 });
     }
     console.error(`DELETE /api/rooms/${roomId}: Server error during room deletion:`, getErrorMessage(error));
-    const response = NextResponse.json({ message: 'Internal server error' }, { status: 500 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
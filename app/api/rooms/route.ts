@@ -1,51 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import dbConnect from '@/lib/db/connect';
 import mongoose from 'mongoose';
-import jwt from 'jsonwebtoken';
 import Room from '@/models/Room';
-import { corsMiddleware, handleOptions } from '@/lib/cors';
-
-interface DecodedToken {
-  userId: string;
-}
+import { handleOptions } from '@/lib/cors';
+import { withAuth } from '@/lib/auth';
 
 interface RoomRequest {
   roomName: string;
   description?: string;
 }
 
-async function verifyToken(req: NextRequest): Promise<{ userId: string } | { error: string; status: number }> {
-  const authHeader = req.headers.get('authorization');
-  const token = authHeader && authHeader.split(' ')[1];
-
-  if (!token) {
-    return { error: 'No token provided', status: 401 };
-  }
-
-  try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as DecodedToken;
-    return { userId: decoded.userId };
-  } catch (error) {
-    console.error('Token verification failed:', error);
-    return { error: 'Invalid or expired token', status: 401 };
-  }
-}
-
-export async function OPTIONS() {
-  return handleOptions();
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
 }
 
-export async function GET(_req: NextRequest) {
-  await dbConnect();
+export const GET = withAuth(async () => {
   console.log('GET /api/rooms: Fetching all rooms.');
 
-  const authResult = await verifyToken(_req);
-  if ('error' in authResult) {
-    console.log(`GET /api/rooms: Authentication failed - ${authResult.error}. Returning ${authResult.status}.`);
-    const response = NextResponse.json({ message: authResult.error }, { status: authResult.status });
-    return corsMiddleware(_req, response);
-  }
-
   try {
     const rooms = await Room.find({})
       .sort({ createdAt: 1 })
@@ -53,26 +23,17 @@ export async function GET(_req: NextRequest) {
       .populate('creator', 'firstName lastName profilePicture')
       .lean();
     console.log(`GET /api/rooms: Found ${rooms.length} rooms.`);
-    const response = NextResponse.json(rooms, { status: 200 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json(rooms, { status: 200 });
   } catch (error) {
     console.error('GET /api/rooms: Server error during room fetch:', error);
-    const response = NextResponse.json({ message: 'Internal server error' }, { status: 500 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
-export async function POST(_req: NextRequest) {
-  await dbConnect();
+export const POST = withAuth(async (_req: NextRequest, { auth }) => {
   console.log('POST /api/rooms: Incoming request to create a new room.');
 
-  const authResult = await verifyToken(_req);
-  if ('error' in authResult) {
-    console.log(`POST /api/rooms: Authentication failed - ${authResult.error}. Returning ${authResult.status}.`);
-    const response = NextResponse.json({ message: authResult.error }, { status: authResult.status });
-    return corsMiddleware(_req, response);
-  }
-  const currentUserId = authResult.userId;
+  const currentUserId = auth.userId;
   console.log(`POST /api/rooms: User ${currentUserId} is authenticated.`);
 
   try {
@@ -80,15 +41,13 @@ export async function POST(_req: NextRequest) {
 
     if (!roomName || roomName.trim() === '') {
       console.log('POST /api/rooms: Room name is empty. Returning 400.');
-      const response = NextResponse.json({ message: 'Room name is required.' }, { status: 400 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'Room name is required.' }, { status: 400 });
     }
 
     const existingRoom = await Room.findOne({ name: roomName });
     if (existingRoom) {
       console.log(`POST /api/rooms: Room with name "${roomName}" already exists. Returning 409.`);
-      const response = NextResponse.json({ message: 'Room with this name already exists.' }, { status: 409 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'Room with this name already exists.' }, { status: 409 });
     }
 
     const newRoom = new Room({
@@ -101,14 +60,12 @@ export async function POST(_req: NextRequest) {
     await newRoom.save();
     console.log(`POST /api/rooms: New room "${newRoom.name}" created by ${currentUserId} with ID: ${newRoom._id}.`);
 
-    const response = NextResponse.json(
+    return NextResponse.json(
       { message: 'Room created successfully!', room: newRoom },
       { status: 201 }
     );
-    return corsMiddleware(_req, response);
   } catch (error) {
     console.error('POST /api/rooms: Server error during room creation:', error);
-    const response = NextResponse.json({ message: 'Internal server error' }, { status: 500 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { DEFAULT_SEARCH_PAGE_SIZE, searchMessages } from '@/lib/search';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+// GET /api/search/messages?q=&room=&senderId=&from=&to=&hasFile=&fileType=&cursor=&limit=
+// Without from, only the last 90 days are searched, and from and to can be at
+// most 365 days apart. The response's from and to give the range searched.
+export const GET = withAuth(async (_req: NextRequest, { auth }) => {
+  try {
+    const { searchParams } = _req.nextUrl;
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_SEARCH_PAGE_SIZE), 10);
+
+    const result = await searchMessages(auth.userId, {
+      q: searchParams.get('q'),
+      room: searchParams.get('room'),
+      senderId: searchParams.get('senderId'),
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+      hasFile: searchParams.get('hasFile'),
+      fileType: searchParams.get('fileType'),
+      cursor: searchParams.get('cursor'),
+      limit: Number.isNaN(limit) ? undefined : limit,
+    });
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('GET /api/search/messages: Error searching messages:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
+import { getUnreadCounts } from '@/lib/read-receipts';
+
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
+}
+
+export const GET = withAuth(async (_req: NextRequest, { auth }) => {
+  try {
+    const result = await getUnreadCounts(auth.userId);
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('GET /api/unread: Error fetching unread counts:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -1,59 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import dbConnect from "@/lib/db/connect";
 import User from "@/models/User";
-import jwt from "jsonwebtoken";
-import { corsMiddleware, handleOptions } from "@/lib/cors";
+import { handleOptions } from "@/lib/cors";
+import { withAuth } from "@/lib/auth";
 
-interface DecodedToken {
-  id: string;
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
 }
 
-// Helper to verify JWT token
-async function verifyToken(
-  req: NextRequest
-): Promise<{ id: string } | { error: string; status: number }> {
-  const authHeader = req.headers.get("authorization");
-  const token = authHeader && authHeader.split(" ")[1];
-
-  if (!token) {
-    return { error: "No token provided", status: 401 };
-  }
-
-  try {
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET as string
-    ) as DecodedToken;
-    return { id: decoded.id };
-  } catch (error) {
-    console.error("Token verification failed:", error);
-    return { error: "Invalid or expired token", status: 401 };
-  }
-}
-
-export async function OPTIONS() {
-  return handleOptions();
-}
-
-export async function POST(_req: NextRequest) {
-  await dbConnect();
+export const POST = withAuth(async (_req: NextRequest, { auth }) => {
   console.log(
     "POST /api/update-profile-picture: Incoming request to update profile picture."
   );
 
-  const authResult = await verifyToken(_req);
-  if ("error" in authResult) {
-    console.log(
-      `POST /api/update-profile-picture: Authentication failed - ${authResult.error}. Returning ${authResult.status}.`
-    );
-    const response = NextResponse.json(
-      { success: false, message: authResult.error },
-      { status: authResult.status }
-    );
-    return corsMiddleware(_req, response);
-  }
-
-  const currentUserId = authResult.id;
+  const currentUserId = auth.userId;
   console.log(
     `POST /api/update-profile-picture: User ${currentUserId} is authenticated.`
   );
@@ -65,18 +24,17 @@ export async function POST(_req: NextRequest) {
       console.log(
         "POST /api/update-profile-picture: Missing userId or profilePictureUrl. Returning 400."
       );
-      const response = NextResponse.json(
+      return NextResponse.json(
         { success: false, message: "Missing userId or profilePictureUrl." },
         { status: 400 }
       );
-      return corsMiddleware(_req, response);
     }
 
     if (userId !== currentUserId) {
       console.log(
         `POST /api/update-profile-picture: Unauthorized access - tried to update ${userId} from ${currentUserId}. Returning 403.`
       );
-      const response = NextResponse.json(
+      return NextResponse.json(
         {
           success: false,
           message:
@@ -84,7 +42,6 @@ export async function POST(_req: NextRequest) {
         },
         { status: 403 }
       );
-      return corsMiddleware(_req, response);
     }
 
     const updatedUser = await User.findByIdAndUpdate(
@@ -97,17 +54,16 @@ export async function POST(_req: NextRequest) {
       console.log(
         `POST /api/update-profile-picture: User ${userId} not found. Returning 404.`
       );
-      const response = NextResponse.json(
+      return NextResponse.json(
         { success: false, message: "User not found." },
         { status: 404 }
       );
-      return corsMiddleware(_req, response);
     }
 
     console.log(
       `POST /api/update-profile-picture: Profile picture updated for user ${userId}.`
     );
-    const response = NextResponse.json(
+    return NextResponse.json(
       {
         success: true,
         message: "Profile picture updated successfully.",
@@ -115,7 +71,6 @@ export async function POST(_req: NextRequest) {
       },
       { status: 200 }
     );
-    return corsMiddleware(_req, response);
   } catch (error: unknown) {
     console.error(
       "POST /api/update-profile-picture: Server error during profile picture update:",
@@ -135,10 +90,9 @@ export async function POST(_req: NextRequest) {
       errorMessage = (error as { message: string }).message;
     }
 
-    const response = NextResponse.json(
+    return NextResponse.json(
       { success: false, message: errorMessage },
       { status: 500 }
     );
-    return corsMiddleware(_req, response);
   }
-}
+});
@@ -1,14 +1,9 @@
 // WHISPR-BACKEND/app/api/users/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import dbConnect from '@/lib/db/connect';
 import User, { IUser } from '@/models/User';
 import mongoose from 'mongoose';
-import { verifyToken } from '@/lib/auth'; // Assuming verifyToken returns a payload with 'id'
-import { corsMiddleware, handleOptions } from '@/lib/cors';
-
-interface DecodedToken {
-  id: string; // CHANGE THIS from 'userId' to 'id'
-}
+import { withAuth } from '@/lib/auth';
+import { handleOptions } from '@/lib/cors';
 
 interface UsersRequest {
   userIds: string[];
@@ -21,46 +16,23 @@ interface UserResponse {
   profilePicture: string;
 }
 
-export async function OPTIONS() {
-  return handleOptions();
+export async function OPTIONS(_req: NextRequest) {
+  return handleOptions(_req);
 }
 
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest) => {
   console.log('API/users: Incoming GET request.');
-  await dbConnect();
 
   const userId = req.nextUrl.searchParams.get('userId');
 
   if (!userId) {
-    const response = NextResponse.json({ message: 'User ID query parameter is required' }, { status: 400 });
-    return corsMiddleware(req, response);
-  }
-
-  const authorizationHeader = req.headers.get('Authorization');
-  const token = authorizationHeader?.split(' ')[1];
-
-  if (!token) {
-    console.warn('API/users: Authentication token not provided.');
-    const response = NextResponse.json({ message: 'Authentication required' }, { status: 401 });
-    return corsMiddleware(req, response);
-  }
-
-  const decodedToken = verifyToken(token) as DecodedToken | null;
-  // FIX: Check for 'decodedToken.id' instead of 'decodedToken.userId'
-  if (!decodedToken || !decodedToken.id) {
-    console.warn('API/users: Invalid or expired token, or missing ID in token.');
-    const response = NextResponse.json({ message: 'Invalid or expired token' }, { status: 401 });
-    return corsMiddleware(req, response);
+    return NextResponse.json({ message: 'User ID query parameter is required' }, { status: 400 });
   }
 
-  // You might also need to use decodedToken.id if you need the authenticated user's ID
-  // const authenticatedUserId = decodedToken.id; 
-
   try {
     if (!mongoose.Types.ObjectId.isValid(userId)) {
       console.warn('API/users: Invalid MongoDB ObjectId format for userId:', userId);
-      const response = NextResponse.json({ message: 'Invalid user ID format provided' }, { status: 400 });
-      return corsMiddleware(req, response);
+      return NextResponse.json({ message: 'Invalid user ID format provided' }, { status: 400 });
     }
 
     console.log('API/users: Fetching details for user ID:', userId);
@@ -70,8 +42,7 @@ export async function GET(req: NextRequest) {
 
     if (!user) {
       console.warn('API/users: User not found for ID:', userId);
-      const response = NextResponse.json({ message: 'User not found' }, { status: 404 });
-      return corsMiddleware(req, response);
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
     }
 
     console.log(`API/users: Successfully fetched user details for ${user.firstName} ${user.lastName}.`);
@@ -82,55 +53,31 @@ export async function GET(req: NextRequest) {
       profilePicture: user.profilePicture || '',
     };
 
-    const response = NextResponse.json({ user: formattedUser }, { status: 200 });
-    return corsMiddleware(req, response);
+    return NextResponse.json({ user: formattedUser }, { status: 200 });
 
   } catch (error) {
     console.error('API/users: Error fetching user details:', error);
-    const response = NextResponse.json({ message: 'Internal server error fetching user details' }, { status: 500 });
-    return corsMiddleware(req, response);
+    return NextResponse.json({ message: 'Internal server error fetching user details' }, { status: 500 });
   }
-}
+});
 
-// Your existing POST handler
-export async function POST(_req: NextRequest) {
+export const POST = withAuth(async (_req: NextRequest, { auth }) => {
   console.log('API/users: Incoming POST request.');
-  await dbConnect();
-
-  const authorizationHeader = _req.headers.get('Authorization');
-  const token = authorizationHeader?.split(' ')[1];
-
-  if (!token) {
-    console.warn('API/users: Authentication token not provided.');
-    const response = NextResponse.json({ message: 'Authentication required' }, { status: 401 });
-    return corsMiddleware(_req, response);
-  }
-
-  const decodedToken = verifyToken(token) as DecodedToken | null;
-  // FIX: Check for 'decodedToken.id' instead of 'decodedToken.userId'
-  if (!decodedToken || !decodedToken.id) {
-    console.warn('API/users: Invalid or expired token, or missing ID in token.');
-    const response = NextResponse.json({ message: 'Invalid or expired token' }, { status: 401 });
-    return corsMiddleware(_req, response);
-  }
 
-  // FIX: Use decodedToken.id here too
-  console.log('API/users: Authenticated user ID:', decodedToken.id);
+  console.log('API/users: Authenticated user ID:', auth.userId);
 
   try {
     const { userIds }: UsersRequest = await _req.json();
 
     if (!userIds || !Array.isArray(userIds) || userIds.length === 0) {
       console.warn('API/users: No user IDs provided in the request body.');
-      const response = NextResponse.json({ message: 'User IDs are required' }, { status: 400 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'User IDs are required' }, { status: 400 });
     }
 
     const invalidIds = userIds.filter(id => !mongoose.Types.ObjectId.isValid(id));
     if (invalidIds.length > 0) {
       console.warn('API/users: Invalid MongoDB ObjectId(s) found in request:', invalidIds);
-      const response = NextResponse.json({ message: 'Invalid user ID format provided' }, { status: 400 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'Invalid user ID format provided' }, { status: 400 });
     }
 
     console.log('API/users: Fetching details for user IDs:', userIds);
@@ -140,8 +87,7 @@ export async function POST(_req: NextRequest) {
 
     if (users.length === 0) {
       console.warn('API/users: No users found for the provided IDs.');
-      const response = NextResponse.json({ message: 'No users found' }, { status: 404 });
-      return corsMiddleware(_req, response);
+      return NextResponse.json({ message: 'No users found' }, { status: 404 });
     }
 
     console.log(`API/users: Successfully fetched ${users.length} user details.`);
@@ -152,12 +98,10 @@ export async function POST(_req: NextRequest) {
       profilePicture: user.profilePicture || '',
     }));
 
-    const response = NextResponse.json({ users: formattedUsers }, { status: 200 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json({ users: formattedUsers }, { status: 200 });
 
   } catch (error) {
     console.error('API/users: Error fetching user details:', error);
-    const response = NextResponse.json({ message: 'Internal server error fetching user details' }, { status: 500 });
-    return corsMiddleware(_req, response);
+    return NextResponse.json({ message: 'Internal server error fetching user details' }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { randomBytes } from "crypto";
+import mongoose from "mongoose";
+import AuthToken, { AuthTokenPurpose, IAuthToken } from "@/models/AuthToken";
+import { hashToken } from "@/lib/sessions";
+
+// Issues a single-use token for the given purpose. Only its hash is stored;
+// any earlier unused tokens of the same purpose for the user stop working.
+export async function createAuthToken(
+  userId: mongoose.Types.ObjectId | string,
+  purpose: AuthTokenPurpose,
+  ttlMs: number
+): Promise<string> {
+  await AuthToken.deleteMany({ user: userId, purpose, usedAt: null });
+
+  const token = randomBytes(32).toString("hex");
+  await AuthToken.create({
+    user: userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+  return token;
+}
+
+// Marks the token as used and returns the id of the user it belongs to, or
+// null if it is unknown, expired or already used. The token is taken straight
+// from a request body, so anything but a string is simply not a valid token.
+export async function consumeAuthToken(
+  token: unknown,
+  purpose: AuthTokenPurpose
+): Promise<string | null> {
+  if (typeof token !== "string") return null;
+  const authToken = (await AuthToken.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      purpose,
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  )) as IAuthToken | null;
+
+  return authToken ? authToken.user.toString() : null;
+}
+
+// Looks up an unused, unexpired token without consuming it, for flows that
+// allow a few attempts before the token is burned.
+export async function findAuthToken(
+  token: unknown,
+  purpose: AuthTokenPurpose
+): Promise<IAuthToken | null> {
+  if (typeof token !== "string") return null;
+  return (await AuthToken.findOne({
+    tokenHash: hashToken(token),
+    purpose,
+    usedAt: null,
+    expiresAt: { $gt: new Date() },
+  })) as IAuthToken | null;
+}
+
+export async function recordFailedAttempt(
+  authToken: IAuthToken,
+  maxAttempts: number
+): Promise<void> {
+  const attempts = authToken.attempts + 1;
+  await AuthToken.updateOne(
+    { _id: authToken._id },
+    {
+      $set: {
+        attempts,
+        ...(attempts >= maxAttempts ? { usedAt: new Date() } : {}),
+      },
+    }
+  );
+}
+
+export async function markAuthTokenUsed(authToken: IAuthToken): Promise<boolean> {
+  const result = await AuthToken.updateOne(
+    { _id: authToken._id, usedAt: null },
+    { $set: { usedAt: new Date() } }
+  );
+  return result.modifiedCount === 1;
+}
@@ -1,17 +1,52 @@
 import jwt, { JwtPayload, SignOptions } from "jsonwebtoken";
-import { NextRequest } from "next/server";
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "./db/connect";
+import { corsMiddleware } from "./cors";
+import Session from "../models/Session";
+import User, { IUser } from "../models/User";
+import { getConfig } from "./config";
+import { processGlobal } from "./process-global";
 
-const JWT_SECRET = process.env.JWT_SECRET as string;
-const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || JWT_SECRET;
-
-if (!JWT_SECRET || !JWT_REFRESH_SECRET) {
-  throw new Error(
-    "JWT_SECRET or JWT_REFRESH_SECRET is not defined in environment variables"
-  );
+function getJwtSecret(isRefreshToken: boolean): string {
+  const { jwtSecret, jwtRefreshSecret } = getConfig();
+  return isRefreshToken ? jwtRefreshSecret : jwtSecret;
 }
 
+// Access and refresh tokens share a signing secret unless
+// JWT_REFRESH_SECRET is set, so each carries its type and only access tokens
+// authenticate requests.
+export type TokenType = "access" | "refresh";
+
 interface DecodedToken extends JwtPayload {
   id: string;
+  typ?: TokenType;
+}
+
+// jti -> expiry (ms), seen by both route handlers and the socket server.
+const tokenDenylist = processGlobal("tokenDenylist", () => new Map<string, number>());
+
+function pruneTokenDenylist(): void {
+  const now = Date.now();
+  for (const [jti, expiresAt] of tokenDenylist) {
+    if (expiresAt <= now) tokenDenylist.delete(jti);
+  }
+}
+
+export function denyToken(jti: string, expiresAt: number): void {
+  pruneTokenDenylist();
+  tokenDenylist.set(jti, expiresAt);
+}
+
+export function isTokenDenied(jti: string | undefined): boolean {
+  if (!jti) return false;
+  const expiresAt = tokenDenylist.get(jti);
+  if (expiresAt === undefined) return false;
+  if (expiresAt <= Date.now()) {
+    tokenDenylist.delete(jti);
+    return false;
+  }
+  return true;
 }
 
 export function verifyToken(
@@ -19,11 +54,14 @@ export function verifyToken(
   isRefreshToken = false
 ): DecodedToken | null {
   try {
-    const secret = isRefreshToken ? JWT_REFRESH_SECRET : JWT_SECRET;
-    const decoded = jwt.verify(token, secret) as DecodedToken;
+    const decoded = jwt.verify(token, getJwtSecret(isRefreshToken)) as DecodedToken;
     return decoded;
   } catch (error) {
-    console.error("Token verification failed:", error);
+    // Malformed, badly signed, expired and not-yet-valid tokens are routine;
+    // TokenExpiredError and NotBeforeError both extend JsonWebTokenError.
+    if (!(error instanceof jwt.JsonWebTokenError)) {
+      console.error("Token verification failed:", error);
+    }
     return null;
   }
 }
@@ -35,12 +73,11 @@ export function generateToken(
   expiresIn: ExpiresIn = "1h",
   isRefreshToken = false
 ): string {
-  const secret = isRefreshToken ? JWT_REFRESH_SECRET : JWT_SECRET;
   const options: SignOptions = {};
   if (expiresIn !== undefined) {
     options.expiresIn = expiresIn;
   }
-  return jwt.sign(payload, secret, options);
+  return jwt.sign(payload, getJwtSecret(isRefreshToken), options);
 }
 
 export function isTokenExpired(decodedToken: DecodedToken): boolean {
@@ -48,13 +85,29 @@ export function isTokenExpired(decodedToken: DecodedToken): boolean {
   return Date.now() >= decodedToken.exp * 1000;
 }
 
+// Whether the session an access token was issued for still exists and has
+// neither expired nor been revoked. Checked on every request, so revoking a
+// session cuts off its access tokens straight away.
+export async function isSessionActive(sessionId: string | undefined): Promise<boolean> {
+  if (!sessionId || !mongoose.isValidObjectId(sessionId)) return false;
+  await dbConnect();
+  const session = await Session.exists({
+    _id: sessionId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+  return !!session;
+}
+
 interface AuthMiddlewareResult {
   error?: string;
   status?: number;
   decoded?: DecodedToken;
 }
 
-export function authMiddleware(request: NextRequest): AuthMiddlewareResult {
+export async function authMiddleware(
+  request: NextRequest
+): Promise<AuthMiddlewareResult> {
   const authHeader = request.headers.get("Authorization");
   if (!authHeader?.startsWith("Bearer ")) {
     return { error: "Unauthorized: No token provided", status: 401 };
@@ -63,7 +116,7 @@ export function authMiddleware(request: NextRequest): AuthMiddlewareResult {
   const token = authHeader.split(" ")[1];
   const decoded = verifyToken(token);
 
-  if (!decoded) {
+  if (!decoded || decoded.typ !== "access") {
     return { error: "Unauthorized: Invalid token", status: 401 };
   }
 
@@ -71,5 +124,145 @@ export function authMiddleware(request: NextRequest): AuthMiddlewareResult {
     return { error: "Unauthorized: Token expired", status: 401 };
   }
 
+  if (isTokenDenied(decoded.jti)) {
+    return { error: "Unauthorized: Token revoked", status: 401 };
+  }
+
+  if (!(await isSessionActive(decoded.sid))) {
+    return { error: "Unauthorized: Session revoked", status: 401 };
+  }
+
   return { decoded };
 }
+
+export function isAdminTwoFactorRequired(): boolean {
+  return getConfig().requireAdminTwoFactor;
+}
+
+export interface AuthClaims {
+  userId: string;
+  sessionId?: string;
+  mfa: boolean;
+  jti?: string;
+  exp?: number;
+}
+
+export function normalizeClaims(decoded: DecodedToken): AuthClaims | null {
+  const userId = decoded.id;
+  if (typeof userId !== "string" || !userId) {
+    return null;
+  }
+  return {
+    userId,
+    sessionId: decoded.sid,
+    mfa: decoded.mfa === true,
+    jti: decoded.jti,
+    exp: decoded.exp,
+  };
+}
+
+export interface AuthContext {
+  claims: AuthClaims;
+  userId: string;
+  // Always read from the database, never from the token.
+  role: IUser["role"];
+  // Only set when the route asked for it with `loadUser`.
+  user?: IUser;
+}
+
+interface WithAuthOptions {
+  roles?: IUser["role"][];
+  loadUser?: boolean;
+}
+
+type RouteContext<P> = { params: Promise<P> };
+
+export type AuthenticatedHandler<P> = (
+  req: NextRequest,
+  context: RouteContext<P> & { auth: AuthContext }
+) => Promise<NextResponse>;
+
+// Wraps a route handler with token verification, a database check that the
+// user still exists, is not banned and holds one of `roles`, and CORS headers
+// on every response. Admin-only routes also require 2FA when that is enforced.
+export function withAuth<P = Record<string, string>>(
+  handler: AuthenticatedHandler<P>,
+  options: WithAuthOptions = {}
+) {
+  return async (
+    req: NextRequest,
+    context: RouteContext<P>
+  ): Promise<NextResponse> => {
+    const reject = (body: Record<string, unknown>, status: number) =>
+      corsMiddleware(req, NextResponse.json(body, { status }));
+
+    const result = await authMiddleware(req);
+    if (!result.decoded) {
+      return reject({ message: result.error }, result.status || 401);
+    }
+
+    const claims = normalizeClaims(result.decoded);
+    if (!claims) {
+      return reject({ message: "Unauthorized: Invalid token payload" }, 401);
+    }
+
+    try {
+      await dbConnect();
+
+      const query = User.findById(claims.userId);
+      if (!options.loadUser) {
+        query.select("role banned twoFactorEnabled");
+      }
+      const user = (await query) as IUser | null;
+
+      if (!user) {
+        return reject({ message: "Unauthorized: User not found" }, 401);
+      }
+      if (user.banned) {
+        return reject({ message: "Your account has been banned" }, 403);
+      }
+      if (options.roles && !options.roles.includes(user.role)) {
+        return reject(
+          { message: `Access denied: ${options.roles.join(" or ")} role required` },
+          403
+        );
+      }
+
+      const adminOnly = options.roles?.length === 1 && options.roles[0] === "admin";
+      if (adminOnly && isAdminTwoFactorRequired()) {
+        if (!user.twoFactorEnabled) {
+          return reject(
+            {
+              message: "Two-factor authentication must be enabled before using admin routes",
+              twoFactorRequired: true,
+            },
+            403
+          );
+        }
+        if (!claims.mfa) {
+          return reject(
+            {
+              message: "Log in again with two-factor authentication to use admin routes",
+              twoFactorRequired: true,
+            },
+            403
+          );
+        }
+      }
+
+      const response = await handler(req, {
+        ...context,
+        auth: {
+          claims,
+          userId: claims.userId,
+          role: user.role,
+          user: options.loadUser ? user : undefined,
+        },
+      });
+      return corsMiddleware(req, response);
+    } catch (error) {
+      console.error(`${req.method} ${req.nextUrl.pathname}: Unhandled error:`, error);
+      return reject({ message: "Internal server error" }, 500);
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { REMOTE_ADDRESS_HEADER, getClientIp } from "./client-ip";
+import { loadConfig, setConfig } from "./config";
+
+function request(headers: Record<string, string>) {
+  return { headers: new Headers(headers) };
+}
+
+function trustProxies(hops: number) {
+  setConfig(loadConfig({ NODE_ENV: "test", TRUST_PROXY: String(hops) }));
+}
+
+afterEach(() => {
+  setConfig(null);
+});
+
+describe("getClientIp", () => {
+  it("ignores X-Forwarded-For unless proxies are trusted", () => {
+    trustProxies(0);
+    const req = request({ "x-forwarded-for": "1.1.1.1", [REMOTE_ADDRESS_HEADER]: "10.0.0.1" });
+    expect(getClientIp(req)).toBe("10.0.0.1");
+  });
+
+  it("takes the entry added by the outermost trusted proxy", () => {
+    const req = request({
+      "x-forwarded-for": "1.1.1.1, 2.2.2.2, 3.3.3.3",
+      [REMOTE_ADDRESS_HEADER]: "10.0.0.1",
+    });
+    trustProxies(1);
+    expect(getClientIp(req)).toBe("3.3.3.3");
+    trustProxies(2);
+    expect(getClientIp(req)).toBe("2.2.2.2");
+  });
+
+  it("takes the first entry when there are fewer entries than proxies", () => {
+    trustProxies(3);
+    expect(getClientIp(request({ "x-forwarded-for": "2.2.2.2, 3.3.3.3" }))).toBe("2.2.2.2");
+  });
+
+  it("falls back to the connection address", () => {
+    trustProxies(1);
+    expect(getClientIp(request({ [REMOTE_ADDRESS_HEADER]: "10.0.0.1" }))).toBe("10.0.0.1");
+    expect(getClientIp(request({ "x-forwarded-for": " , " }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,25 @@
+import { getConfig } from "./config";
+
+// Set by server.ts on every request to the address of the connection it came
+// in on. Any value a client sends under this name is overwritten, so it can be
+// trusted where X-Forwarded-For cannot.
+export const REMOTE_ADDRESS_HEADER = "x-whispr-remote-address";
+
+// The address a request came from. X-Forwarded-For is only read when the
+// server runs behind TRUST_PROXY proxies: each of them appends the address it
+// received the request from, so the entry that many places from the right is
+// the last one a client could not have written itself.
+export function getClientIp(req: { headers: Headers }): string | undefined {
+  const hops = getConfig().trustProxyHops;
+  const forwardedFor = req.headers.get("x-forwarded-for");
+  if (hops > 0 && forwardedFor) {
+    const addresses = forwardedFor
+      .split(",")
+      .map((address) => address.trim())
+      .filter(Boolean);
+    if (addresses.length > 0) {
+      return addresses[Math.max(addresses.length - hops, 0)];
+    }
+  }
+  return req.headers.get(REMOTE_ADDRESS_HEADER) || undefined;
+}
@@ -1,10 +1,24 @@
 import { v2 as cloudinary } from "cloudinary";
+import { CloudinaryConfig, getConfig } from "@/lib/config";
 
-cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-  api_key: process.env.CLOUDINARY_API_KEY,
-  api_secret: process.env.CLOUDINARY_API_SECRET,
-});
+let configured = false;
+
+// Configures the SDK on first use and returns the credentials it was given.
+export function getCloudinaryConfig(): CloudinaryConfig {
+  const config = getConfig().cloudinary;
+  if (!config) {
+    throw new Error("Cloudinary environment variables not configured");
+  }
+  if (!configured) {
+    cloudinary.config({
+      cloud_name: config.cloudName,
+      api_key: config.apiKey,
+      api_secret: config.apiSecret,
+    });
+    configured = true;
+  }
+  return config;
+}
 
 interface CloudinaryUploadResult {
   secure_url: string;
@@ -24,6 +38,7 @@ export async function uploadFileToCloudinary(
   folder: string,
   resourceType: "image" | "video" | "raw"
 ): Promise<string> {
+  getCloudinaryConfig();
   const bytes = await file.arrayBuffer();
   const buffer = Buffer.from(bytes);
 
@@ -67,6 +82,7 @@ export function getCloudinaryResourceType(
 
 export async function deleteFileFromCloudinary(fileUrl: string): Promise<void> {
   try {
+    getCloudinaryConfig();
     const urlParts = fileUrl.split("/");
     const versionIndex = urlParts.findIndex((part) => part.startsWith("v")) + 1;
     let publicId = urlParts.slice(versionIndex).join("/");
@@ -0,0 +1,238 @@
+// Central, validated view of the environment.
+//
+// Values are read once, on first use, rather than at import time: `next build`
+// imports route modules without the runtime environment being present.
+
+export type NodeEnv = "development" | "production" | "test";
+export type EmailVerificationPolicy = "off" | "restrict_messages" | "block_login";
+export type MailTransportKind = "smtp" | "file" | "console";
+
+export interface CloudinaryConfig {
+  cloudName: string;
+  apiKey: string;
+  apiSecret: string;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export interface AppConfig {
+  nodeEnv: NodeEnv;
+  port: number;
+  appUrl: string;
+  mongodbUri: string;
+  jwtSecret: string;
+  jwtRefreshSecret: string;
+  // Null outside production when the CLOUDINARY_* variables are not set.
+  cloudinary: CloudinaryConfig | null;
+  // Null means the built-in default origins.
+  corsAllowedOrigins: string[] | null;
+  redisUrl?: string;
+  // How many reverse proxies in front of the server append to
+  // X-Forwarded-For; 0 means the header is ignored.
+  trustProxyHops: number;
+  requireAdminTwoFactor: boolean;
+  emailVerificationPolicy: EmailVerificationPolicy;
+  // How long after sending a message its author may still edit it; 0 means
+  // no limit.
+  messageEditWindowMinutes: number;
+  // How long soft-deleted messages are kept before being purged.
+  deletedMessageRetentionDays: number;
+  mail: {
+    transport: MailTransportKind;
+    from: string;
+    fileDir: string;
+    // Only set when the transport is smtp.
+    smtp?: SmtpConfig;
+  };
+}
+
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(
+      `Invalid environment configuration:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`
+    );
+    this.name = "ConfigError";
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+// Fallbacks that keep local development and tests working without a .env
+// file. None of them apply in production.
+const DEVELOPMENT_DEFAULTS: Env = {
+  MONGODB_URI: "mongodb://127.0.0.1:27017/whispr",
+  JWT_SECRET: "whispr-development-secret",
+};
+
+function oneOf<T extends string>(
+  env: Env,
+  name: string,
+  allowed: readonly T[],
+  fallback: T,
+  problems: string[]
+): T {
+  const value = env[name]?.trim();
+  if (!value) return fallback;
+  if (!allowed.includes(value as T)) {
+    problems.push(`${name} must be one of ${allowed.join(", ")} (got "${value}")`);
+    return fallback;
+  }
+  return value as T;
+}
+
+function integer(
+  env: Env,
+  name: string,
+  fallback: number,
+  problems: string[],
+  { min = 0, max = Number.MAX_SAFE_INTEGER } = {}
+): number {
+  const value = env[name]?.trim();
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    problems.push(`${name} must be an integer between ${min} and ${max} (got "${value}")`);
+    return fallback;
+  }
+  return parsed;
+}
+
+function boolean(env: Env, name: string, fallback: boolean, problems: string[]): boolean {
+  const value = env[name]?.trim().toLowerCase();
+  if (!value) return fallback;
+  if (value === "true" || value === "1") return true;
+  if (value === "false" || value === "0") return false;
+  problems.push(`${name} must be "true" or "false" (got "${value}")`);
+  return fallback;
+}
+
+function url(env: Env, name: string, fallback: string, problems: string[]): string {
+  const value = env[name]?.trim();
+  if (!value) return fallback;
+  try {
+    new URL(value);
+  } catch {
+    problems.push(`${name} must be an absolute URL (got "${value}")`);
+    return fallback;
+  }
+  return value.replace(/\/+$/, "");
+}
+
+function list(env: Env, name: string): string[] | null {
+  const values = env[name]
+    ?.split(",")
+    .map((value) => value.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+  return values && values.length > 0 ? values : null;
+}
+
+// Builds the configuration from `env`, reporting every missing or malformed
+// variable at once instead of failing on the first.
+export function loadConfig(env: Env = process.env): AppConfig {
+  const problems: string[] = [];
+  const nodeEnv = oneOf<NodeEnv>(
+    env,
+    "NODE_ENV",
+    ["development", "production", "test"],
+    "development",
+    problems
+  );
+  const production = nodeEnv === "production";
+
+  const required = (name: string): string => {
+    const value = env[name]?.trim();
+    if (value) return value;
+    if (!production && DEVELOPMENT_DEFAULTS[name]) return DEVELOPMENT_DEFAULTS[name]!;
+    problems.push(`${name} is required`);
+    return "";
+  };
+  const optional = (name: string): string | undefined => env[name]?.trim() || undefined;
+
+  const jwtSecret = required("JWT_SECRET");
+
+  const cloudinaryNames = ["CLOUDINARY_CLOUD_NAME", "CLOUDINARY_API_KEY", "CLOUDINARY_API_SECRET"];
+  let cloudinary: CloudinaryConfig | null = null;
+  if (production || cloudinaryNames.some((name) => optional(name))) {
+    const [cloudName, apiKey, apiSecret] = cloudinaryNames.map(required);
+    cloudinary = { cloudName, apiKey, apiSecret };
+  }
+
+  const transport = oneOf<MailTransportKind>(
+    env,
+    "MAIL_TRANSPORT",
+    ["smtp", "file", "console"],
+    production ? "smtp" : "console",
+    problems
+  );
+  let smtp: SmtpConfig | undefined;
+  if (transport === "smtp") {
+    const host = optional("SMTP_HOST");
+    if (!host) {
+      problems.push("SMTP_HOST is required when MAIL_TRANSPORT is smtp");
+    }
+    smtp = {
+      host: host || "",
+      port: integer(env, "SMTP_PORT", 587, problems, { min: 1, max: 65535 }),
+      secure: boolean(env, "SMTP_SECURE", false, problems),
+      user: optional("SMTP_USER"),
+      pass: optional("SMTP_PASS"),
+    };
+  }
+
+  const config: AppConfig = {
+    nodeEnv,
+    port: integer(env, "PORT", 10000, problems, { min: 1, max: 65535 }),
+    appUrl: url(env, "APP_URL", "https://whispr-o7.vercel.app", problems),
+    mongodbUri: required("MONGODB_URI"),
+    jwtSecret,
+    jwtRefreshSecret: optional("JWT_REFRESH_SECRET") || jwtSecret,
+    cloudinary,
+    corsAllowedOrigins: list(env, "CORS_ALLOWED_ORIGINS"),
+    redisUrl: optional("REDIS_URL"),
+    trustProxyHops: integer(env, "TRUST_PROXY", 0, problems),
+    requireAdminTwoFactor: boolean(env, "REQUIRE_ADMIN_2FA", true, problems),
+    emailVerificationPolicy: oneOf<EmailVerificationPolicy>(
+      env,
+      "EMAIL_VERIFICATION_POLICY",
+      ["off", "restrict_messages", "block_login"],
+      "off",
+      problems
+    ),
+    messageEditWindowMinutes: integer(env, "MESSAGE_EDIT_WINDOW_MINUTES", 0, problems),
+    deletedMessageRetentionDays: integer(env, "DELETED_MESSAGE_RETENTION_DAYS", 30, problems, {
+      min: 1,
+    }),
+    mail: {
+      transport,
+      from: optional("MAIL_FROM") || "Whispr <no-reply@whispr.app>",
+      fileDir: optional("MAIL_FILE_DIR") || ".mail",
+      smtp,
+    },
+  };
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+let config: AppConfig | null = null;
+
+export function getConfig(): AppConfig {
+  if (!config) {
+    config = loadConfig();
+  }
+  return config;
+}
+
+// Replaces the configuration read from the environment, e.g. in tests with
+// `setConfig(loadConfig({ ...fakeEnv }))`. Pass null to read it again.
+export function setConfig(override: AppConfig | null): void {
+  config = override;
+}
@@ -0,0 +1,43 @@
+// Shared by lib/cors.ts and the Socket.IO server in server.ts.
+import { getConfig } from "./config";
+
+const DEFAULT_ALLOWED_ORIGINS = [
+  "https://whispr-o7.vercel.app",
+  "https://whispr-backend-sarl.onrender.com",
+  "http://localhost:3000",
+  "http://localhost:4000",
+];
+
+export const CORS_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
+export const CORS_ALLOWED_HEADERS = ["Content-Type", "Authorization", "X-Requested-With"];
+
+// CORS_ALLOWED_ORIGINS is a comma-separated list of exact origins and
+// wildcard subdomain patterns such as "https://*.example.com".
+export function getAllowedOrigins(): string[] {
+  return getConfig().corsAllowedOrigins ?? DEFAULT_ALLOWED_ORIGINS;
+}
+
+function matchesPattern(origin: string, pattern: string): boolean {
+  const wildcardIndex = pattern.indexOf("://*.");
+  if (wildcardIndex === -1) {
+    return origin === pattern;
+  }
+
+  // "https://*.example.com" matches "https://app.example.com" and deeper
+  // subdomains, but not the bare "https://example.com".
+  const scheme = pattern.slice(0, wildcardIndex + 3);
+  const suffix = pattern.slice(wildcardIndex + 4);
+  if (!origin.startsWith(scheme) || !origin.endsWith(suffix)) {
+    return false;
+  }
+  const subdomain = origin.slice(scheme.length, origin.length - suffix.length);
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)*$/i.test(subdomain);
+}
+
+// Returns the request origin if it is allowed, otherwise null.
+export function matchAllowedOrigin(origin: string | null | undefined): string | null {
+  if (!origin) return null;
+  return getAllowedOrigins().some((pattern) => matchesPattern(origin, pattern))
+    ? origin
+    : null;
+}
@@ -1,26 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { CORS_ALLOWED_HEADERS, CORS_METHODS, matchAllowedOrigin } from './cors-config';
 
-const allowedOrigins = ['https://whispr-o7.vercel.app', 'http://localhost:4000'];
-
-export function corsMiddleware(req: NextRequest, response: NextResponse = NextResponse.next()) {
+function applyCorsHeaders(req: NextRequest, response: NextResponse) {
   const origin = req.headers.get('origin');
-  if (origin && allowedOrigins.includes(origin)) {
-    response.headers.set('Access-Control-Allow-Origin', origin);
-  } else {
-    response.headers.set('Access-Control-Allow-Origin', 'https://whispr-o7.vercel.app');
+  const allowedOrigin = matchAllowedOrigin(origin);
+  if (allowedOrigin) {
+    response.headers.set('Access-Control-Allow-Origin', allowedOrigin);
   }
-  response.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
+  response.headers.set('Vary', 'Origin');
+  response.headers.set('Access-Control-Allow-Methods', CORS_METHODS.join(', '));
+  response.headers.set('Access-Control-Allow-Headers', CORS_ALLOWED_HEADERS.join(', '));
   response.headers.set('Access-Control-Allow-Credentials', 'true');
-  console.log(`CORS: Origin=${origin}, Allowed=${response.headers.get('Access-Control-Allow-Origin')}`);
+  return { origin, allowedOrigin };
+}
+
+export function corsMiddleware(req: NextRequest, response: NextResponse = NextResponse.next()) {
+  const { origin, allowedOrigin } = applyCorsHeaders(req, response);
+  console.log(`CORS: Origin=${origin}, Allowed=${allowedOrigin}`);
   return response;
 }
 
-export async function handleOptions() {
+export async function handleOptions(req: NextRequest) {
   const response = NextResponse.json({}, { status: 200 });
-  response.headers.set('Access-Control-Allow-Origin', allowedOrigins[0]);
-  response.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
-  response.headers.set('Access-Control-Allow-Credentials', 'true');
+  applyCorsHeaders(req, response);
   return response;
-}
\ No newline at end of file
+}
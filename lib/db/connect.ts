@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import { getConfig } from '../config';
 
 interface CachedConnection {
   conn: typeof mongoose | null;
@@ -9,8 +10,6 @@ interface GlobalWithMongoose {
   mongoose?: CachedConnection;
 }
 
-const MONGODB_URI = process.env.MONGODB_URI;
-
 const cached: CachedConnection = (global as GlobalWithMongoose).mongoose || { conn: null, promise: null };
 
 if (!(global as GlobalWithMongoose).mongoose) {
@@ -18,10 +17,6 @@ if (!(global as GlobalWithMongoose).mongoose) {
 }
 
 async function dbConnect(): Promise<typeof mongoose> {
-  if (!MONGODB_URI) {
-    throw new Error('Please define the MONGODB_URI environment variable inside .env.local');
-  }
-
   if (cached.conn) {
     return cached.conn;
   }
@@ -29,7 +24,7 @@ async function dbConnect(): Promise<typeof mongoose> {
     const opts = {
       bufferCommands: false,
     };
-    cached.promise = mongoose.connect(MONGODB_URI, opts).then((mongooseInstance) => mongooseInstance);
+    cached.promise = mongoose.connect(getConfig().mongodbUri, opts).then((mongooseInstance) => mongooseInstance);
   }
   cached.conn = await cached.promise;
   return cached.conn;
@@ -0,0 +1,95 @@
+import mongoose from "mongoose";
+import Message, { IMessage } from "../models/Message";
+import { DeliveryStatus } from "../models/types";
+import { emitMessageEvent, getUserChannel } from "./message-events";
+
+export type { DeliveryStatus } from "../models/types";
+
+export function getDeliveryStatus(message: {
+  deliveredAt?: Date | null;
+  readAt?: Date | null;
+}): DeliveryStatus {
+  if (message.readAt) return "read";
+  if (message.deliveredAt) return "delivered";
+  return "sent";
+}
+
+// Moves the messages matching `filter` to `status` and pushes a
+// messageStatusChanged event to every socket of each affected sender.
+async function updateStatus(
+  filter: mongoose.FilterQuery<IMessage>,
+  status: Exclude<DeliveryStatus, "sent">,
+  at: Date,
+  receiverId: string
+): Promise<number> {
+  const changed = await Message.find(filter).select("_id sender").lean();
+  if (changed.length === 0) return 0;
+
+  const ids = changed.map((m) => m._id);
+  await Message.updateMany({ _id: { $in: ids } }, [
+    {
+      $set:
+        status === "read"
+          ? { read: true, readAt: at, deliveredAt: { $ifNull: ["$deliveredAt", at] } }
+          : { deliveredAt: at },
+    },
+  ]);
+
+  const idsBySender = new Map<string, string[]>();
+  for (const message of changed) {
+    const senderId = message.sender.toString();
+    idsBySender.set(senderId, [...(idsBySender.get(senderId) || []), message._id.toString()]);
+  }
+  for (const [senderId, messageIds] of Array.from(idsBySender.entries())) {
+    emitMessageEvent({
+      channel: getUserChannel(senderId),
+      event: "messageStatusChanged",
+      payload: { messageIds, receiverId, status, at: at.toISOString() },
+    });
+  }
+  return changed.length;
+}
+
+// Records that `receiverId`'s client received the given private messages.
+// Ids of messages addressed to someone else, or already delivered, are
+// ignored. Returns how many messages changed status.
+export async function markDelivered(
+  receiverId: string,
+  messageIds: string[],
+  at: Date = new Date()
+): Promise<number> {
+  const validIds = messageIds.filter((id) => mongoose.Types.ObjectId.isValid(id));
+  if (validIds.length === 0) return 0;
+  return updateStatus(
+    {
+      _id: { $in: validIds },
+      chatType: "private",
+      receiver: new mongoose.Types.ObjectId(receiverId),
+      deliveredAt: null,
+    },
+    "delivered",
+    at,
+    receiverId
+  );
+}
+
+// Marks every private message from `senderId` to `readerId` sent up to
+// `until` as read, delivering any that had not been acknowledged yet.
+export async function markReadThrough(
+  readerId: string,
+  senderId: string,
+  until: Date
+): Promise<number> {
+  return updateStatus(
+    {
+      chatType: "private",
+      sender: new mongoose.Types.ObjectId(senderId),
+      receiver: new mongoose.Types.ObjectId(readerId),
+      createdAt: { $lte: until },
+      readAt: null,
+    },
+    "read",
+    new Date(),
+    readerId
+  );
+}
@@ -0,0 +1,27 @@
+import User from "../models/User";
+import { EmailVerificationPolicy, getConfig } from "./config";
+
+export type { EmailVerificationPolicy } from "./config";
+
+export function getEmailVerificationPolicy(): EmailVerificationPolicy {
+  return getConfig().emailVerificationPolicy;
+}
+
+export function canLogIn(user: { emailVerified?: boolean }): boolean {
+  return user.emailVerified === true || getEmailVerificationPolicy() !== "block_login";
+}
+
+export function canSendMessages(user: { emailVerified?: boolean }): boolean {
+  return user.emailVerified === true || getEmailVerificationPolicy() === "off";
+}
+
+// Accounts created before email verification existed have no emailVerified
+// field, and would read as unverified through the schema default. They are
+// marked verified instead of being locked out. Returns how many were updated.
+export async function backfillEmailVerified(): Promise<number> {
+  const { modifiedCount } = await User.updateMany(
+    { emailVerified: { $exists: false } },
+    { $set: { emailVerified: true } }
+  );
+  return modifiedCount;
+}
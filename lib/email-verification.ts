@@ -0,0 +1,26 @@
+import AuthToken from "@/models/AuthToken";
+import { IUser } from "@/models/User";
+import { createAuthToken } from "@/lib/auth-tokens";
+import { getConfig } from "@/lib/config";
+import { sendMail } from "@/lib/mail";
+import { emailVerificationEmail } from "@/lib/mail/templates";
+
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+export const RESEND_COOLDOWN_MS = 60 * 1000;
+
+export async function sendVerificationEmail(user: IUser): Promise<void> {
+  const token = await createAuthToken(user._id, "email_verification", VERIFICATION_TOKEN_TTL_MS);
+  const { appUrl } = getConfig();
+  await sendMail(emailVerificationEmail(user, `${appUrl}/verify-email?token=${token}`));
+}
+
+// Milliseconds until another verification email may be sent to the user, or
+// 0 if one can be sent now.
+export async function getResendCooldown(userId: string): Promise<number> {
+  const latest = await AuthToken.findOne({ user: userId, purpose: "email_verification" })
+    .sort({ createdAt: -1 })
+    .select("createdAt")
+    .lean();
+  if (!latest) return 0;
+  return Math.max(0, latest.createdAt.getTime() + RESEND_COOLDOWN_MS - Date.now());
+}
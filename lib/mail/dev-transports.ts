@@ -0,0 +1,41 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { MailMessage, MailTransport } from "./types";
+
+// Writes each message as a JSON file so local setups and tests can read the
+// links out of it.
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, "_")}.json`;
+      await writeFile(
+        path.join(directory, fileName),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+    },
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.log(
+        `Mail to ${message.to} from ${message.from}: ${message.subject}\n${message.text}`
+      );
+    },
+  };
+}
+
+// Keeps messages in memory; intended for tests.
+export function createMemoryTransport(): MailTransport & {
+  sent: (MailMessage & { from: string })[];
+} {
+  const sent: (MailMessage & { from: string })[] = [];
+  return {
+    sent,
+    async send(message) {
+      sent.push(message);
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { getConfig } from "@/lib/config";
+import { MailMessage, MailTransport } from "./types";
+import { createSmtpTransport } from "./smtp-transport";
+import { createConsoleTransport, createFileTransport } from "./dev-transports";
+
+export type { MailMessage, MailTransport } from "./types";
+export {
+  createConsoleTransport,
+  createFileTransport,
+  createMemoryTransport,
+} from "./dev-transports";
+export { createSmtpTransport } from "./smtp-transport";
+
+let transport: MailTransport | null = null;
+
+function createTransportFromConfig(): MailTransport {
+  const { mail } = getConfig();
+
+  switch (mail.transport) {
+    case "smtp":
+      return createSmtpTransport(mail.smtp!);
+    case "file":
+      return createFileTransport(mail.fileDir);
+    case "console":
+      return createConsoleTransport();
+  }
+}
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = createTransportFromConfig();
+  }
+  return transport;
+}
+
+// Replaces the transport picked from the environment, e.g. in tests.
+export function setMailTransport(override: MailTransport | null): void {
+  transport = override;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({
+    ...message,
+    from: getConfig().mail.from,
+  });
+}
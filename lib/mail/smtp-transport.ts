@@ -0,0 +1,25 @@
+import nodemailer from "nodemailer";
+import { MailTransport } from "./types";
+
+interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { MailMessage } from "./types";
+
+interface Recipient {
+  email: string;
+  firstName: string;
+}
+
+export function passwordResetEmail(
+  recipient: Recipient,
+  resetUrl: string,
+  expiresInMinutes: number
+): MailMessage {
+  return {
+    to: recipient.email,
+    subject: "Reset your Whispr password",
+    text: [
+      `Hi ${recipient.firstName},`,
+      "",
+      "Someone asked to reset the password for your Whispr account.",
+      `Use the link below within ${expiresInMinutes} minutes to choose a new one:`,
+      "",
+      resetUrl,
+      "",
+      "If this wasn't you, you can ignore this email; your password stays the same.",
+    ].join("\n"),
+  };
+}
+
+export function emailVerificationEmail(
+  recipient: Recipient,
+  verifyUrl: string
+): MailMessage {
+  return {
+    to: recipient.email,
+    subject: "Confirm your Whispr email address",
+    text: [
+      `Hi ${recipient.firstName},`,
+      "",
+      "Thanks for signing up for Whispr. Confirm your email address with the link below:",
+      "",
+      verifyUrl,
+      "",
+      "If you didn't create an account, you can ignore this email.",
+    ].join("\n"),
+  };
+}
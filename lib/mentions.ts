@@ -0,0 +1,212 @@
+import mongoose from "mongoose";
+import Mention, { IMention } from "../models/Mention";
+import Message, { IMessage } from "../models/Message";
+import User, { IUser } from "../models/User";
+import { FormattedMessage, StoredMessage, formatMessage } from "./message-format";
+import { canModerateRoomNamed } from "./room-moderation";
+
+export const DEFAULT_MENTIONS_PAGE_SIZE = 50;
+export const MAX_MENTIONS_PAGE_SIZE = 100;
+
+// "@" followed by one word and, optionally, a second one so that
+// "@First Last" can be tried as a full name. A word stops at whitespace,
+// another "@" or common punctuation.
+const MENTION_PATTERN = /(?:^|[^\w@])@([^\s@,.!?;:()]+)(?:[ \t]+([^\s@,.!?;:()]+))?/;
+
+export interface ParsedMentions {
+  // Lowercased "first last" candidates.
+  fullNames: string[];
+  // Lowercased handles; a user's handle is their first and last name joined
+  // without a space, e.g. @janedoe.
+  handles: string[];
+  here: boolean;
+  room: boolean;
+}
+
+export interface ResolvedMentions {
+  userIds: string[];
+  kinds: Map<string, IMention["kind"]>;
+}
+
+export interface FormattedMention {
+  id: string;
+  kind: IMention["kind"];
+  read: boolean;
+  readAt?: string;
+  room?: string;
+  timestamp: string;
+  message: FormattedMessage;
+}
+
+export function parseMentions(text: string | undefined): ParsedMentions {
+  const parsed: ParsedMentions = { fullNames: [], handles: [], here: false, room: false };
+  if (!text) return parsed;
+
+  const pattern = new RegExp(MENTION_PATTERN.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const first = match[1].toLowerCase();
+    if (first === "here") {
+      parsed.here = true;
+      continue;
+    }
+    if (first === "room") {
+      parsed.room = true;
+      continue;
+    }
+    parsed.handles.push(first);
+    if (match[2]) {
+      parsed.fullNames.push(`${first} ${match[2].toLowerCase()}`);
+    }
+  }
+  return parsed;
+}
+
+// Resolves the mentions in a room message to user ids, leaving out the sender
+// and banned users. @here reaches `presentUserIds`, the users currently in
+// the room; @room additionally reaches everyone who has posted in it. Both
+// notify many users at once, so they only work for admins and the room's
+// moderators; from anyone else they are plain text.
+export async function resolveMentions(
+  text: string | undefined,
+  {
+    room,
+    senderId,
+    senderRole,
+    presentUserIds,
+  }: { room: string; senderId: string; senderRole?: IUser["role"]; presentUserIds: string[] }
+): Promise<ResolvedMentions> {
+  const parsed = parseMentions(text);
+  const kinds = new Map<string, IMention["kind"]>();
+
+  if (
+    (parsed.room || parsed.here) &&
+    !(await canModerateRoomNamed(room, { userId: senderId, role: senderRole }))
+  ) {
+    parsed.room = false;
+    parsed.here = false;
+  }
+
+  if (parsed.room) {
+    const posters = await Message.distinct("sender", { chatType: "room", room });
+    for (const id of [...posters.map((p) => p.toString()), ...presentUserIds]) {
+      kinds.set(id, "room");
+    }
+  } else if (parsed.here) {
+    for (const id of presentUserIds) kinds.set(id, "here");
+  }
+
+  if (parsed.handles.length > 0) {
+    const named = await User.find({
+      $or: [
+        { mentionName: { $in: parsed.fullNames } },
+        { mentionHandle: { $in: parsed.handles } },
+      ],
+    })
+      .select("_id")
+      .lean();
+    for (const user of named) kinds.set(user._id.toString(), "user");
+  }
+
+  kinds.delete(senderId);
+  if (kinds.size === 0) return { userIds: [], kinds };
+
+  const eligible = await User.find({
+    _id: { $in: Array.from(kinds.keys()) },
+    banned: { $ne: true },
+  })
+    .select("_id")
+    .lean();
+  const eligibleIds = new Set(eligible.map((u) => u._id.toString()));
+  for (const id of Array.from(kinds.keys())) {
+    if (!eligibleIds.has(id)) kinds.delete(id);
+  }
+  return { userIds: Array.from(kinds.keys()), kinds };
+}
+
+// Fills in the mention fields of users created before they existed. Returns
+// how many users were updated.
+export async function backfillMentionNames(): Promise<number> {
+  const { modifiedCount } = await User.updateMany({ mentionHandle: { $exists: false } }, [
+    {
+      $set: {
+        mentionName: { $toLower: { $concat: ["$firstName", " ", "$lastName"] } },
+        mentionHandle: { $toLower: { $concat: ["$firstName", "$lastName"] } },
+      },
+    },
+  ]);
+  return modifiedCount;
+}
+
+export async function recordMentions(
+  message: IMessage,
+  { kinds }: ResolvedMentions
+): Promise<IMention[]> {
+  if (kinds.size === 0) return [];
+  return (await Mention.insertMany(
+    Array.from(kinds.entries()).map(([userId, kind]) => ({
+      user: userId,
+      message: message._id,
+      sender: message.sender,
+      room: message.room,
+      kind,
+    }))
+  )) as unknown as IMention[];
+}
+
+export async function listMentions(
+  userId: string,
+  {
+    limit = DEFAULT_MENTIONS_PAGE_SIZE,
+    skip = 0,
+    unreadOnly = false,
+  }: { limit?: number; skip?: number; unreadOnly?: boolean } = {}
+): Promise<{ mentions: FormattedMention[]; total: number; unreadCount: number }> {
+  const filter = unreadOnly ? { user: userId, read: false } : { user: userId };
+
+  const mentions = (await Mention.find(filter)
+    .sort({ createdAt: -1 })
+    .skip(Math.max(0, skip))
+    .limit(Math.min(Math.max(1, limit), MAX_MENTIONS_PAGE_SIZE))
+    .populate("message")
+    .lean()) as unknown as Array<
+    Omit<IMention, "message"> & { message: StoredMessage | null }
+  >;
+
+  const [total, unreadCount] = await Promise.all([
+    Mention.countDocuments(filter),
+    Mention.countDocuments({ user: userId, read: false }),
+  ]);
+
+  return {
+    // Mentions whose message has since been removed are left out.
+    mentions: mentions
+      .filter((mention) => mention.message)
+      .map((mention) => ({
+        id: mention._id.toString(),
+        kind: mention.kind,
+        read: mention.read,
+        readAt: mention.readAt ? mention.readAt.toISOString() : undefined,
+        room: mention.room || undefined,
+        timestamp: mention.createdAt.toISOString(),
+        message: formatMessage(mention.message!),
+      })),
+    total,
+    unreadCount,
+  };
+}
+
+// Marks the given mentions, or all of the user's mentions when none are
+// given, as read.
+export async function markMentionsRead(
+  userId: string,
+  mentionIds?: string[]
+): Promise<{ updated: number; unreadCount: number }> {
+  const filter: mongoose.FilterQuery<IMention> = { user: userId, read: false };
+  if (mentionIds) {
+    filter._id = { $in: mentionIds.filter((id) => mongoose.Types.ObjectId.isValid(id)) };
+  }
+  const result = await Mention.updateMany(filter, { $set: { read: true, readAt: new Date() } });
+  const unreadCount = await Mention.countDocuments({ user: userId, read: false });
+  return { updated: result.modifiedCount, unreadCount };
+}
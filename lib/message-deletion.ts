@@ -0,0 +1,178 @@
+import mongoose from "mongoose";
+import Mention from "../models/Mention";
+import Message, { IMessage } from "../models/Message";
+import { getConfig } from "./config";
+import { getMessageChannel } from "./message-events";
+import { FormattedMessage, formatMessage } from "./message-format";
+import { ModerationActor, canModerateRoomNamed } from "./room-moderation";
+import { emitSequencedEvent } from "./sync";
+
+const MAX_REASON_LENGTH = 500;
+
+type DeletionError = { error: string; status: number };
+
+export type DeletionResult = { messageId: string; message: FormattedMessage } | DeletionError;
+
+// Replies carry a snapshot of the message they quote; once it is deleted
+// only the quoted sender is kept.
+async function clearReplySnapshots(messageIds: mongoose.Types.ObjectId[]): Promise<void> {
+  await Message.updateMany(
+    { "replyTo.id": { $in: messageIds } },
+    {
+      $unset: {
+        "replyTo.text": "",
+        "replyTo.fileUrl": "",
+        "replyTo.fileType": "",
+        "replyTo.fileName": "",
+      },
+    }
+  );
+}
+
+// Soft-deletes a message, leaving a tombstone in its place. Authors may
+// delete their own messages; in rooms the creator, moderators and admins may
+// delete anyone's, and must give a reason when doing so.
+export async function deleteMessage(
+  messageId: string,
+  actor: ModerationActor,
+  reason?: unknown
+): Promise<DeletionResult> {
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    return { error: "Invalid message ID format", status: 400 };
+  }
+  const message = (await Message.findById(messageId)) as IMessage | null;
+  if (!message) {
+    return { error: "Message not found.", status: 404 };
+  }
+  if (message.deletedAt) {
+    return { messageId, message: formatMessage(message) };
+  }
+
+  const trimmedReason = typeof reason === "string" ? reason.trim() : "";
+  if (trimmedReason.length > MAX_REASON_LENGTH) {
+    return {
+      error: `Deletion reason cannot exceed ${MAX_REASON_LENGTH} characters.`,
+      status: 400,
+    };
+  }
+
+  const isAuthor = message.sender.toString() === actor.userId;
+  if (!isAuthor) {
+    const canModerate =
+      message.chatType === "room"
+        ? await canModerateRoomNamed(message.room, actor)
+        : actor.role === "admin";
+    if (!canModerate) {
+      return { error: "Not authorized to delete this message.", status: 403 };
+    }
+    if (!trimmedReason) {
+      return { error: "A reason is required to delete someone else's message.", status: 400 };
+    }
+  }
+
+  const updated = (await Message.findByIdAndUpdate(
+    message._id,
+    {
+      $set: {
+        deletedAt: new Date(),
+        deletedBy: new mongoose.Types.ObjectId(actor.userId),
+        deletionReason: trimmedReason || null,
+        pinnedAt: null,
+        pinnedBy: null,
+      },
+    },
+    { new: true }
+  )) as IMessage | null;
+  if (!updated) {
+    return { error: "Message not found.", status: 404 };
+  }
+  await clearReplySnapshots([updated._id]);
+
+  const result = { messageId, message: formatMessage(updated) };
+  const channel = getMessageChannel(updated);
+  if (channel) {
+    await emitSequencedEvent(
+      {
+        channel,
+        event: "messageDeleted",
+        payload: {
+          ...result,
+          deletedBy: actor.userId,
+          byModerator: !isAuthor,
+          reason: trimmedReason || undefined,
+        },
+      },
+      "deleted",
+      updated._id
+    );
+  }
+  return result;
+}
+
+// Brings a tombstoned message back. Restricted to admins.
+export async function restoreMessage(
+  messageId: string,
+  actor: ModerationActor
+): Promise<DeletionResult> {
+  if (actor.role !== "admin") {
+    return { error: "Only admins can restore deleted messages.", status: 403 };
+  }
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    return { error: "Invalid message ID format", status: 400 };
+  }
+  const updated = (await Message.findOneAndUpdate(
+    { _id: messageId, deletedAt: { $ne: null } },
+    { $set: { deletedAt: null, deletedBy: null, deletionReason: null } },
+    { new: true }
+  )) as IMessage | null;
+  if (!updated) {
+    return { error: "Deleted message not found.", status: 404 };
+  }
+  // Quotes of the message were cleared when it was deleted.
+  await Message.updateMany(
+    { "replyTo.id": updated._id },
+    {
+      $set: {
+        "replyTo.text": updated.text || null,
+        "replyTo.fileUrl": updated.fileUrl || null,
+        "replyTo.fileType": updated.fileType || null,
+        "replyTo.fileName": updated.fileName || null,
+      },
+    }
+  );
+
+  const result = { messageId, message: formatMessage(updated) };
+  const channel = getMessageChannel(updated);
+  if (channel) {
+    await emitSequencedEvent(
+      { channel, event: "messageRestored", payload: result },
+      "restored",
+      updated._id
+    );
+  }
+  return result;
+}
+
+// Hard-deletes tombstones older than the configured retention period, along
+// with the mentions pointing at them. Replies in the thread of a purged
+// message move to the main conversation so they stay reachable. Returns how
+// many messages were removed.
+export async function purgeDeletedMessages(now: Date = new Date()): Promise<number> {
+  const retentionMs = getConfig().deletedMessageRetentionDays * 24 * 60 * 60 * 1000;
+  const cutoff = new Date(now.getTime() - retentionMs);
+
+  const expired = await Message.find({ deletedAt: { $ne: null, $lt: cutoff } })
+    .select("_id")
+    .lean();
+  if (expired.length === 0) return 0;
+
+  const ids = expired.map((message) => message._id);
+  await Mention.deleteMany({ message: { $in: ids } });
+  await Message.updateMany(
+    { threadRoot: { $in: ids }, _id: { $nin: ids } },
+    { $set: { threadRoot: null } }
+  );
+  await clearReplySnapshots(ids);
+  const { deletedCount } = await Message.deleteMany({ _id: { $in: ids } });
+  return deletedCount;
+}
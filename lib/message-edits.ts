@@ -0,0 +1,120 @@
+import mongoose from "mongoose";
+import Message, { IMessage } from "../models/Message";
+import { getConfig } from "./config";
+import { getMessageChannel } from "./message-events";
+import { ModerationActor, canModerateRoomNamed } from "./room-moderation";
+import { recordConversationEvent } from "./sync";
+
+type EditError = { error: string; status: number };
+
+export interface MessageVersion {
+  text?: string;
+  // When this version was replaced by the next one.
+  editedAt: string;
+}
+
+export interface EditHistory {
+  messageId: string;
+  text?: string;
+  createdAt: string;
+  editedAt?: string;
+  versions: MessageVersion[];
+}
+
+// Replaces the text of `messageId`, keeping the previous version in its edit
+// history and refreshing the replyTo snapshot of every reply quoting it.
+// Returns the updated message, the ids of the refreshed replies and the
+// sequence number of the edit, which the caller broadcasts.
+export async function editMessage(
+  messageId: string,
+  userId: string,
+  newText: unknown
+): Promise<{ message: IMessage; replyIds: string[]; seq?: number } | EditError> {
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    return { error: "Invalid message ID format", status: 400 };
+  }
+  const message = (await Message.findById(messageId)) as IMessage | null;
+  if (!message || message.deletedAt) {
+    return { error: "Message not found.", status: 404 };
+  }
+  if (message.sender.toString() !== userId) {
+    return { error: "Not authorized to edit this message.", status: 403 };
+  }
+
+  const windowMinutes = getConfig().messageEditWindowMinutes;
+  if (windowMinutes > 0 && Date.now() - message.createdAt.getTime() > windowMinutes * 60 * 1000) {
+    return {
+      error: `Messages can only be edited within ${windowMinutes} minutes of sending.`,
+      status: 403,
+    };
+  }
+
+  const text = typeof newText === "string" ? newText.trim() : "";
+  if (!text) {
+    return message.fileUrl
+      ? { error: "Cannot edit a message that is solely a file.", status: 400 }
+      : { error: "Message cannot be empty.", status: 400 };
+  }
+  if (text === message.text) {
+    return { message, replyIds: [] };
+  }
+
+  const editedAt = new Date();
+  // Matching on the current text keeps a concurrent edit from being dropped
+  // from the history.
+  const updated = (await Message.findOneAndUpdate(
+    { _id: message._id, text: message.text ?? null },
+    {
+      $set: { text, isEdited: true, editedAt },
+      $push: { editHistory: { text: message.text, editedAt } },
+    },
+    { new: true }
+  )) as IMessage | null;
+  if (!updated) {
+    return { error: "The message was changed in the meantime; please retry.", status: 409 };
+  }
+
+  const replies = await Message.find({ "replyTo.id": message._id }).select("_id").lean();
+  if (replies.length > 0) {
+    await Message.updateMany({ "replyTo.id": message._id }, { $set: { "replyTo.text": text } });
+  }
+
+  const channel = getMessageChannel(updated);
+  const seq = channel ? await recordConversationEvent(channel, "edited", updated._id) : undefined;
+
+  return { message: updated, replyIds: replies.map((reply) => reply._id.toString()), seq };
+}
+
+// The history is visible to the author, to admins and, for room messages, to
+// the room's creator and moderators.
+export async function getEditHistory(
+  messageId: string,
+  actor: ModerationActor
+): Promise<EditHistory | EditError> {
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    return { error: "Invalid message ID format", status: 400 };
+  }
+  const message = (await Message.findById(messageId).select("+editHistory")) as IMessage | null;
+  if (!message) {
+    return { error: "Message not found", status: 404 };
+  }
+
+  const allowed =
+    message.sender.toString() === actor.userId ||
+    actor.role === "admin" ||
+    (message.chatType === "room" && (await canModerateRoomNamed(message.room, actor)));
+  if (!allowed) {
+    return { error: "Not authorized to view this message's history", status: 403 };
+  }
+
+  return {
+    messageId: message._id.toString(),
+    text: message.text,
+    createdAt: message.createdAt.toISOString(),
+    editedAt: message.editedAt ? message.editedAt.toISOString() : undefined,
+    versions: (message.editHistory || []).map((version) => ({
+      text: version.text,
+      editedAt: version.editedAt.toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,48 @@
+import { EventEmitter } from "events";
+import { processGlobal } from "./process-global";
+
+// Lets message changes made outside a socket handler (e.g. by a REST route)
+// reach connected clients: the socket server forwards every event to the
+// Socket.IO channel it names.
+
+export interface MessageEvent {
+  // A public room name, a private_<a>_<b> channel or a user_<id> channel.
+  channel: string;
+  event: string;
+  payload: unknown;
+}
+
+const messageEvents = processGlobal("messageEvents", () => new EventEmitter());
+
+export function getPrivateRoomId(userId1: string, userId2: string): string {
+  const sortedIds = [userId1, userId2].sort();
+  return `private_${sortedIds[0]}_${sortedIds[1]}`;
+}
+
+// Every socket of a user joins this channel, for events addressed to the
+// user rather than to a conversation.
+export function getUserChannel(userId: string): string {
+  return `user_${userId}`;
+}
+
+// The channel a message was delivered on.
+export function getMessageChannel(message: {
+  chatType: "room" | "private";
+  room?: string;
+  sender: { toString(): string };
+  receiver?: { toString(): string };
+}): string | null {
+  if (message.chatType === "room") {
+    return message.room || null;
+  }
+  if (!message.receiver) return null;
+  return getPrivateRoomId(message.sender.toString(), message.receiver.toString());
+}
+
+export function emitMessageEvent(event: MessageEvent): void {
+  messageEvents.emit("messageEvent", event);
+}
+
+export function onMessageEvent(listener: (event: MessageEvent) => void): void {
+  messageEvents.on("messageEvent", listener);
+}
@@ -0,0 +1,162 @@
+import mongoose from "mongoose";
+import { IMessage } from "../models/Message";
+import { Message as WireMessage } from "../models/types";
+import { getDeliveryStatus } from "./delivery";
+import { summarizeReactions } from "./reactions";
+
+type Id = mongoose.Types.ObjectId | string;
+
+// Shown in place of the content of a soft-deleted message.
+export const DELETED_MESSAGE_TEXT = "This message was deleted";
+
+export type TombstoneFields = Pick<
+  WireMessage,
+  "isDeleted" | "deletedAt" | "deletedById" | "deletionReason"
+>;
+
+// The stored message as returned by either a hydrated document or .lean().
+export interface StoredMessage {
+  _id: Id;
+  sender: Id;
+  firstName: string;
+  lastName: string;
+  senderProfilePicture?: string;
+  room?: string;
+  receiver?: Id;
+  receiverFirstName?: string;
+  receiverLastName?: string;
+  text?: string;
+  chatType: IMessage["chatType"];
+  clientId?: string | null;
+  seq?: number | null;
+  isEdited?: boolean;
+  editedAt?: Date | null;
+  fileUrl?: string;
+  fileType?: IMessage["fileType"];
+  fileName?: string;
+  createdAt: Date;
+  replyTo?: {
+    id: Id;
+    sender: string;
+    text?: string;
+    fileUrl?: string;
+    fileType?: IMessage["fileType"];
+    fileName?: string;
+  };
+  reactions?: Map<string, Id[]> | Record<string, Id[]>;
+  threadRoot?: Id | null;
+  threadReplyCount?: number;
+  threadLastReplyAt?: Date | null;
+  pinnedAt?: Date | null;
+  pinnedBy?: Id | null;
+  mentions?: Id[];
+  deliveredAt?: Date | null;
+  readAt?: Date | null;
+  deletedAt?: Date | null;
+  deletedBy?: Id | null;
+  deletionReason?: string | null;
+}
+
+// The wire format shared with clients, see models/types.
+export type FormattedMessage = WireMessage;
+
+// Strips the content of a soft-deleted message from any formatted shape,
+// leaving a tombstone; other messages just get isDeleted: false.
+export function withTombstone<
+  T extends {
+    text?: string;
+    fileUrl?: string;
+    fileType?: string;
+    fileName?: string;
+    replyTo?: unknown;
+    reactions?: unknown[];
+  },
+>(
+  formatted: T,
+  message: Pick<StoredMessage, "deletedAt" | "deletedBy" | "deletionReason">
+): T & TombstoneFields {
+  if (!message.deletedAt) {
+    return { ...formatted, isDeleted: false };
+  }
+  return {
+    ...formatted,
+    text: DELETED_MESSAGE_TEXT,
+    fileUrl: undefined,
+    fileType: undefined,
+    fileName: undefined,
+    replyTo: undefined,
+    reactions: formatted.reactions ? [] : undefined,
+    isDeleted: true,
+    deletedAt: message.deletedAt.toISOString(),
+    deletedById: message.deletedBy ? message.deletedBy.toString() : undefined,
+    deletionReason: message.deletionReason || undefined,
+  };
+}
+
+export function formatMessage(message: StoredMessage): FormattedMessage {
+  const formatted: Omit<FormattedMessage, keyof TombstoneFields> = {
+    id: message._id.toString(),
+    _id: message._id.toString(),
+    senderId: message.sender.toString(),
+    sender: `${message.firstName} ${message.lastName}`,
+    senderProfilePicture: message.senderProfilePicture || "/default-avatar.png",
+    text: message.text || undefined,
+    timestamp: message.createdAt.toISOString(),
+    clientId: message.clientId || undefined,
+    seq: message.seq ?? undefined,
+    isEdited: message.isEdited || false,
+    editedAt: message.editedAt ? message.editedAt.toISOString() : undefined,
+    chatType: message.chatType,
+    room: message.room || undefined,
+    receiverId: message.receiver ? message.receiver.toString() : undefined,
+    receiverUsername:
+      message.receiverFirstName && message.receiverLastName
+        ? `${message.receiverFirstName} ${message.receiverLastName}`
+        : undefined,
+    receiverFirstName: message.receiverFirstName || undefined,
+    receiverLastName: message.receiverLastName || undefined,
+    fileUrl: message.fileUrl || undefined,
+    fileType: message.fileType || undefined,
+    fileName: message.fileName || undefined,
+    replyTo: message.replyTo
+      ? {
+          id: message.replyTo.id.toString(),
+          sender: message.replyTo.sender,
+          text: message.replyTo.text || undefined,
+          fileUrl: message.replyTo.fileUrl || undefined,
+          fileType: message.replyTo.fileType || undefined,
+          fileName: message.replyTo.fileName || undefined,
+        }
+      : undefined,
+    reactions: summarizeReactions(message.reactions),
+    threadRootId: message.threadRoot ? message.threadRoot.toString() : undefined,
+    threadReplyCount: message.threadReplyCount || 0,
+    threadLastReplyAt: message.threadLastReplyAt
+      ? message.threadLastReplyAt.toISOString()
+      : undefined,
+    pinnedAt: message.pinnedAt ? message.pinnedAt.toISOString() : undefined,
+    pinnedById: message.pinnedBy ? message.pinnedBy.toString() : undefined,
+    mentionIds: (message.mentions || []).map((id) => id.toString()),
+    deliveryStatus: message.chatType === "private" ? getDeliveryStatus(message) : undefined,
+    deliveredAt: message.deliveredAt ? message.deliveredAt.toISOString() : undefined,
+    readAt: message.readAt ? message.readAt.toISOString() : undefined,
+  };
+  return withTombstone(formatted, message);
+}
+
+// receiveMessage and receivePrivateMessage keep the payload clients had before
+// the shared format: `id` is the id the sender's client generated, and the
+// server id is only in `_id`. Private messages also name the sender as
+// senderUsername.
+export interface SocketMessage extends Omit<FormattedMessage, "id"> {
+  id?: string;
+  senderUsername?: string;
+}
+
+export function toSocketMessage(message: FormattedMessage): SocketMessage {
+  const payload: SocketMessage = { ...message, id: message.clientId };
+  if (message.chatType === "private") {
+    payload.senderUsername = message.sender;
+  }
+  return payload;
+}
@@ -0,0 +1,43 @@
+import Message, { IMessage } from "../models/Message";
+
+export const MAX_CLIENT_ID_LENGTH = 128;
+
+// Reads the id a client attached to a send. Absent ids are allowed and turn
+// off deduplication for that send.
+export function parseClientId(id: unknown): string | null | { error: string } {
+  if (id === undefined || id === null || id === "") return null;
+  if (typeof id !== "string" || id.trim().length > MAX_CLIENT_ID_LENGTH) {
+    return { error: `Message id must be a string of at most ${MAX_CLIENT_ID_LENGTH} characters` };
+  }
+  return id.trim() || null;
+}
+
+// The message `senderId` already sent under `clientId`, if any.
+export async function findSentMessage(
+  senderId: string,
+  clientId: string | null
+): Promise<IMessage | null> {
+  if (!clientId) return null;
+  return (await Message.findOne({ sender: senderId, clientId })) as IMessage | null;
+}
+
+function isDuplicateClientId(error: unknown): boolean {
+  const mongoError = error as { code?: number; keyPattern?: Record<string, unknown> };
+  return mongoError?.code === 11000 && !!mongoError.keyPattern && "clientId" in mongoError.keyPattern;
+}
+
+// Saves a new message. When a concurrent retry stored the same client id
+// first, that message is returned instead and `duplicate` is set.
+export async function saveOnce(
+  message: IMessage
+): Promise<{ message: IMessage; duplicate: boolean }> {
+  try {
+    await message.save();
+    return { message, duplicate: false };
+  } catch (error) {
+    if (!isDuplicateClientId(error)) throw error;
+    const existing = await findSentMessage(message.sender.toString(), message.clientId ?? null);
+    if (!existing) throw error;
+    return { message: existing, duplicate: true };
+  }
+}
@@ -0,0 +1,170 @@
+import mongoose from "mongoose";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  MAX_PAGE_SIZE,
+  MessagePage,
+  PageParams,
+  PageQuery,
+  findMessagePage,
+} from "./message-pagination";
+
+interface Row {
+  _id: mongoose.Types.ObjectId;
+  room: string;
+  createdAt: Date;
+}
+
+const rows: Row[] = [];
+
+function objectId(n: number): mongoose.Types.ObjectId {
+  return new mongoose.Types.ObjectId(n.toString(16).padStart(24, "0"));
+}
+
+function comparable(value: unknown): number | string {
+  if (value instanceof Date) return value.getTime();
+  if (value instanceof mongoose.Types.ObjectId) return value.toHexString();
+  return value as number | string;
+}
+
+// Enough of MongoDB's query language for the filters findMessagePage builds.
+function matches(row: Row, filter: Record<string, unknown>): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    const clauses = condition as Record<string, unknown>[];
+    if (key === "$and") return clauses.every((clause) => matches(row, clause));
+    if (key === "$or") return clauses.some((clause) => matches(row, clause));
+    const actual = comparable(row[key as keyof Row]);
+    if (
+      condition &&
+      typeof condition === "object" &&
+      !(condition instanceof Date) &&
+      !(condition instanceof mongoose.Types.ObjectId)
+    ) {
+      return Object.entries(condition).every(([op, operand]) => {
+        const expected = comparable(operand);
+        if (op === "$lt") return actual < expected;
+        if (op === "$lte") return actual <= expected;
+        if (op === "$gt") return actual > expected;
+        if (op === "$gte") return actual >= expected;
+        throw new Error(`Unsupported operator ${op}`);
+      });
+    }
+    // Ids given as strings compare equal to the hex form of an ObjectId.
+    return actual === comparable(condition);
+  });
+}
+
+vi.mock("../models/Message", () => ({
+  default: {
+    findOne: (filter: Record<string, unknown>) => ({
+      select: () => ({
+        lean: async () => rows.find((row) => matches(row, filter)) || null,
+      }),
+    }),
+  },
+}));
+
+const runQuery: PageQuery<Row> = async (filter, direction, limit) =>
+  rows
+    .filter((row) => matches(row, filter as Record<string, unknown>))
+    .sort(
+      (a, b) =>
+        direction *
+        (a.createdAt.getTime() - b.createdAt.getTime() ||
+          a._id.toHexString().localeCompare(b._id.toHexString()))
+    )
+    .slice(0, limit);
+
+async function pageOf(params: PageParams): Promise<MessagePage<Row>> {
+  const page = await findMessagePage({ room: "general" }, params, runQuery);
+  if ("error" in page) throw new Error(page.error);
+  return page;
+}
+
+// The numbers the fixture ids were made from, in page order.
+const numbersOf = (page: MessagePage<Row>) =>
+  page.messages.map((row) => parseInt(row._id.toHexString(), 16));
+
+const cursor = (n: number) => objectId(n).toHexString();
+
+beforeEach(() => {
+  rows.length = 0;
+  // Messages 3 to 5 share a millisecond; 11 is in another room.
+  const times = [1, 2, 3, 3, 3, 4, 5, 6, 7, 8];
+  times.forEach((second, i) =>
+    rows.push({ _id: objectId(i + 1), room: "general", createdAt: new Date(second * 1000) })
+  );
+  rows.push({ _id: objectId(11), room: "other", createdAt: new Date(3000) });
+});
+
+describe("findMessagePage", () => {
+  it("returns the newest page without a cursor", async () => {
+    const page = await pageOf({ limit: 3 });
+    expect(page).toMatchObject({ hasMore: true, hasMoreBefore: true, hasMoreAfter: false });
+    expect(numbersOf(page)).toEqual([10, 9, 8]);
+  });
+
+  it("reports no more history when the page is exactly what is left", async () => {
+    const page = await pageOf({ limit: 10 });
+    expect(page).toMatchObject({ hasMore: false, hasMoreBefore: false });
+    expect(numbersOf(page)).toEqual([10, 9, 8, 7, 6, 5, 4, 3, 2, 1]);
+  });
+
+  it("pages before a cursor, breaking same-millisecond ties by id", async () => {
+    const page = await pageOf({ before: cursor(5), limit: 3 });
+    expect(page).toMatchObject({ hasMore: true, hasMoreBefore: true, hasMoreAfter: true });
+    expect(numbersOf(page)).toEqual([4, 3, 2]);
+  });
+
+  it("stops at the oldest message", async () => {
+    const page = await pageOf({ before: cursor(3), limit: 2 });
+    expect(page).toMatchObject({ hasMore: false, hasMoreBefore: false });
+    expect(numbersOf(page)).toEqual([2, 1]);
+  });
+
+  it("pages after a cursor, newest first", async () => {
+    const page = await pageOf({ after: cursor(3), limit: 3 });
+    expect(page).toMatchObject({ hasMore: true, hasMoreBefore: true, hasMoreAfter: true });
+    expect(numbersOf(page)).toEqual([6, 5, 4]);
+  });
+
+  it("stops at the newest message", async () => {
+    const page = await pageOf({ after: cursor(8), limit: 2 });
+    expect(page).toMatchObject({ hasMore: false, hasMoreAfter: false });
+    expect(numbersOf(page)).toEqual([10, 9]);
+  });
+
+  it("centres a page on the cursor, which counts towards the older half", async () => {
+    const page = await pageOf({ around: cursor(4), limit: 4 });
+    expect(page).toMatchObject({ hasMore: true, hasMoreBefore: true, hasMoreAfter: true });
+    expect(numbersOf(page)).toEqual([6, 5, 4, 3]);
+  });
+
+  it("returns a short newer half around a recent cursor", async () => {
+    const page = await pageOf({ around: cursor(9), limit: 5 });
+    expect(page).toMatchObject({ hasMore: true, hasMoreBefore: true, hasMoreAfter: false });
+    expect(numbersOf(page)).toEqual([10, 9, 8, 7]);
+  });
+
+  it("clamps the page size", async () => {
+    expect(numbersOf(await pageOf({ limit: 0 }))).toEqual([10]);
+
+    const query = vi.fn(runQuery);
+    await findMessagePage({ room: "general" }, { limit: 1000 }, query);
+    expect(query).toHaveBeenCalledWith({ room: "general" }, -1, MAX_PAGE_SIZE + 1);
+  });
+
+  it("rejects more than one cursor", async () => {
+    await expect(pageOf({ before: cursor(5), after: cursor(3) })).rejects.toThrow(
+      "Only one of before, after or around can be given"
+    );
+  });
+
+  it("rejects a malformed cursor", async () => {
+    await expect(pageOf({ before: "not-an-id" })).rejects.toThrow("Invalid cursor message ID");
+  });
+
+  it("rejects a cursor from another conversation", async () => {
+    const page = await findMessagePage({ room: "general" }, { before: cursor(11) }, runQuery);
+    expect(page).toEqual({ error: "Cursor message not found in this conversation", status: 404 });
+  });
+});
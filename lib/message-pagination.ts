@@ -0,0 +1,129 @@
+import mongoose, { FilterQuery } from "mongoose";
+import Message, { IMessage } from "../models/Message";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+// At most one of before/after/around may be given; each is a message id in
+// the conversation being paged. Without one the newest page is returned.
+export interface PageParams {
+  before?: string | null;
+  after?: string | null;
+  around?: string | null;
+  limit?: number;
+}
+
+export interface MessagePage<T> {
+  // Newest first.
+  messages: T[];
+  // Whether there is more in the direction that was paged.
+  hasMore: boolean;
+  hasMoreBefore: boolean;
+  hasMoreAfter: boolean;
+}
+
+type PageError = { error: string; status: number };
+
+// Runs the page query; callers add their own projection and population.
+// Results must be sorted by (createdAt, _id) in `direction`.
+export type PageQuery<T> = (
+  filter: FilterQuery<IMessage>,
+  direction: 1 | -1,
+  limit: number
+) => Promise<T[]>;
+
+interface Anchor {
+  _id: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+function olderThan(anchor: Anchor, inclusive = false): FilterQuery<IMessage> {
+  return {
+    $or: [
+      { createdAt: { $lt: anchor.createdAt } },
+      { createdAt: anchor.createdAt, _id: inclusive ? { $lte: anchor._id } : { $lt: anchor._id } },
+    ],
+  };
+}
+
+function newerThan(anchor: Anchor): FilterQuery<IMessage> {
+  return {
+    $or: [
+      { createdAt: { $gt: anchor.createdAt } },
+      { createdAt: anchor.createdAt, _id: { $gt: anchor._id } },
+    ],
+  };
+}
+
+export function sortFor(direction: 1 | -1): Record<string, 1 | -1> {
+  return { createdAt: direction, _id: direction };
+}
+
+// Pages through the messages matching `filter` anchored on a message id
+// rather than an offset, so pages stay stable while new messages arrive.
+export async function findMessagePage<T>(
+  filter: FilterQuery<IMessage>,
+  { before, after, around, limit = DEFAULT_PAGE_SIZE }: PageParams,
+  runQuery: PageQuery<T>
+): Promise<MessagePage<T> | PageError> {
+  const anchorIds = [before, after, around].filter(Boolean) as string[];
+  if (anchorIds.length > 1) {
+    return { error: "Only one of before, after or around can be given", status: 400 };
+  }
+  const pageSize = Math.min(Math.max(1, limit), MAX_PAGE_SIZE);
+
+  let anchor: Anchor | null = null;
+  if (anchorIds.length === 1) {
+    if (!mongoose.Types.ObjectId.isValid(anchorIds[0])) {
+      return { error: "Invalid cursor message ID", status: 400 };
+    }
+    anchor = (await Message.findOne({ $and: [filter, { _id: anchorIds[0] }] })
+      .select("_id createdAt")
+      .lean()) as Anchor | null;
+    if (!anchor) {
+      return { error: "Cursor message not found in this conversation", status: 404 };
+    }
+  }
+
+  if (!anchor || before) {
+    const older = await runQuery(
+      anchor ? { $and: [filter, olderThan(anchor)] } : filter,
+      -1,
+      pageSize + 1
+    );
+    const hasMoreBefore = older.length > pageSize;
+    return {
+      messages: older.slice(0, pageSize),
+      hasMore: hasMoreBefore,
+      hasMoreBefore,
+      hasMoreAfter: !!anchor,
+    };
+  }
+
+  if (after) {
+    const newer = await runQuery({ $and: [filter, newerThan(anchor)] }, 1, pageSize + 1);
+    const hasMoreAfter = newer.length > pageSize;
+    return {
+      messages: newer.slice(0, pageSize).reverse(),
+      hasMore: hasMoreAfter,
+      hasMoreBefore: true,
+      hasMoreAfter,
+    };
+  }
+
+  // around: the anchor and the older half, plus the newer half.
+  const olderSize = Math.ceil(pageSize / 2);
+  const newerSize = pageSize - olderSize;
+  const [older, newer] = await Promise.all([
+    runQuery({ $and: [filter, olderThan(anchor, true)] }, -1, olderSize + 1),
+    runQuery({ $and: [filter, newerThan(anchor)] }, 1, newerSize + 1),
+  ]);
+  const hasMoreBefore = older.length > olderSize;
+  const hasMoreAfter = newer.length > newerSize;
+  return {
+    messages: [...newer.slice(0, newerSize).reverse(), ...older.slice(0, olderSize)],
+    hasMore: hasMoreBefore || hasMoreAfter,
+    hasMoreBefore,
+    hasMoreAfter,
+  };
+}
@@ -0,0 +1,440 @@
+// Creating, editing, deleting, listing and formatting messages. The socket
+// handlers in server.ts and the API routes both go through here so that the
+// two paths validate, store and broadcast messages the same way.
+import mongoose from "mongoose";
+import Message, { IMessage } from "../models/Message";
+import User, { IUser } from "../models/User";
+import { markDelivered } from "./delivery";
+import { canSendMessages } from "./email-verification-policy";
+import { editMessage as applyEdit } from "./message-edits";
+import {
+  emitMessageEvent,
+  getMessageChannel,
+  getPrivateRoomId,
+  getUserChannel,
+} from "./message-events";
+import {
+  FormattedMessage,
+  StoredMessage,
+  formatMessage,
+  toSocketMessage,
+} from "./message-format";
+import { findSentMessage, parseClientId, saveOnce } from "./message-idempotency";
+import { MessagePage, PageParams, findMessagePage, sortFor } from "./message-pagination";
+import { ResolvedMentions, recordMentions, resolveMentions } from "./mentions";
+import { getUsersInRoom } from "./room-presence";
+import { recordMessageCreated } from "./sync";
+
+export { formatMessage } from "./message-format";
+export { deleteMessage, restoreMessage } from "./message-deletion";
+
+type ServiceError = { error: string; status: number };
+
+export interface MessageInput {
+  // The client-generated id used to deduplicate retries.
+  id?: unknown;
+  text?: string;
+  fileUrl?: string;
+  fileType?: IMessage["fileType"];
+  fileName?: string;
+  replyTo?: {
+    id: string;
+    sender?: string;
+    text?: string;
+    fileUrl?: string;
+    fileType?: IMessage["fileType"];
+    fileName?: string;
+  };
+}
+
+export interface MessageSent {
+  message: FormattedMessage;
+  // Set when the client id was already used; nothing was stored or broadcast.
+  duplicate: boolean;
+}
+
+export interface ThreadReplyStored {
+  message: IMessage;
+  // Set when the client id was already used; nothing was stored.
+  duplicate: boolean;
+}
+
+// Either a room name or the other participant of a private conversation.
+export type Conversation = { room: string } | { partnerId: string };
+
+// The checks shared by every send: content, client id and the sender's
+// standing.
+function validateSend(
+  sender: IUser,
+  { id, text, fileUrl }: MessageInput
+): { clientId: string | null } | ServiceError {
+  if (!text && !fileUrl) {
+    return { error: "Message cannot be empty.", status: 400 };
+  }
+  const clientId = parseClientId(id);
+  if (clientId && typeof clientId === "object") {
+    return { error: clientId.error, status: 400 };
+  }
+  if (sender.banned) {
+    return { error: "User is banned", status: 403 };
+  }
+  if (!canSendMessages(sender)) {
+    return {
+      error: "Please verify your email address before sending messages.",
+      status: 403,
+    };
+  }
+  return { clientId };
+}
+
+// Snapshots the message being replied to, preferring what the client sent.
+async function resolveReplyTo(
+  replyTo: MessageInput["replyTo"]
+): Promise<IMessage["replyTo"] | ServiceError | undefined> {
+  if (!replyTo?.id) return undefined;
+  if (!mongoose.Types.ObjectId.isValid(replyTo.id)) {
+    return { error: "Invalid reply message ID.", status: 400 };
+  }
+  const repliedMessage = (await Message.findById(replyTo.id)) as IMessage | null;
+  // A tombstone's original content must not be quoted back into the chat.
+  if (!repliedMessage || repliedMessage.deletedAt) {
+    return { error: "Replied message not found.", status: 404 };
+  }
+  return {
+    id: repliedMessage._id,
+    sender: replyTo.sender || `${repliedMessage.firstName} ${repliedMessage.lastName}`,
+    text: replyTo.text || repliedMessage.text,
+    fileUrl: replyTo.fileUrl || repliedMessage.fileUrl,
+    fileType: replyTo.fileType || repliedMessage.fileType,
+    fileName: replyTo.fileName || repliedMessage.fileName,
+  };
+}
+
+// Stores a message from `sender` in `room` and broadcasts it as
+// receiveMessage, notifying mentioned users on their user channels.
+export async function sendRoomMessage(
+  sender: IUser,
+  room: string,
+  input: MessageInput
+): Promise<MessageSent | ServiceError> {
+  const validated = validateSend(sender, input);
+  if ("error" in validated) return validated;
+  const { clientId } = validated;
+
+  const senderId = sender._id.toString();
+  // A retry of a send that was stored but not acknowledged.
+  const existing = await findSentMessage(senderId, clientId);
+  if (existing) {
+    return { message: formatMessage(existing), duplicate: true };
+  }
+
+  const replyTo = await resolveReplyTo(input.replyTo);
+  if (replyTo && "error" in replyTo) return replyTo;
+
+  const mentions = await resolveMentions(input.text, {
+    room,
+    senderId,
+    senderRole: sender.role,
+    presentUserIds: getUsersInRoom(room),
+  });
+
+  const saved = await saveOnce(
+    new Message({
+      sender: sender._id,
+      firstName: sender.firstName,
+      lastName: sender.lastName,
+      senderProfilePicture: sender.profilePicture || "/default-avatar.png",
+      room,
+      text: input.text || undefined,
+      chatType: "room",
+      fileUrl: input.fileUrl || undefined,
+      fileType: input.fileType || undefined,
+      fileName: input.fileName || undefined,
+      replyTo,
+      mentions: mentions.userIds,
+      clientId,
+    })
+  );
+  if (saved.duplicate) return { message: formatMessage(saved.message), duplicate: true };
+  await recordMessageCreated(room, saved.message);
+  const message = formatMessage(saved.message);
+
+  emitMessageEvent({ channel: room, event: "receiveMessage", payload: toSocketMessage(message) });
+  await notifyMentions(saved.message, mentions);
+
+  return { message, duplicate: false };
+}
+
+// Mentioned users are notified on all of their sockets, whether or not they
+// have joined the room.
+async function notifyMentions(stored: IMessage, mentions: ResolvedMentions): Promise<void> {
+  const recorded = await recordMentions(stored, mentions);
+  if (recorded.length === 0) return;
+  const message = formatMessage(stored);
+  for (const mention of recorded) {
+    emitMessageEvent({
+      channel: getUserChannel(mention.user.toString()),
+      event: "mentioned",
+      payload: {
+        mentionId: mention._id.toString(),
+        kind: mention.kind,
+        messageId: message.id,
+        room: message.room,
+        sender: message.sender,
+        senderId: message.senderId,
+        text: message.text,
+        timestamp: message.timestamp,
+      },
+    });
+  }
+}
+
+// Stores a reply in the thread under `root` the way any other message is
+// stored: deduplicated by client id, with its mentions notified and its
+// creation sequenced. Broadcasting it and updating the root's thread summary
+// is left to lib/threads.
+export async function storeThreadReply(
+  sender: IUser,
+  root: IMessage,
+  input: MessageInput
+): Promise<ThreadReplyStored | ServiceError> {
+  const validated = validateSend(sender, input);
+  if ("error" in validated) return validated;
+  const { clientId } = validated;
+
+  const senderId = sender._id.toString();
+  const existing = await findSentMessage(senderId, clientId);
+  if (existing) {
+    return { message: existing, duplicate: true };
+  }
+
+  const replyTo = await resolveReplyTo(input.replyTo);
+  if (replyTo && "error" in replyTo) return replyTo;
+
+  const mentions =
+    root.chatType === "room" && root.room
+      ? await resolveMentions(input.text, {
+          room: root.room,
+          senderId,
+          senderRole: sender.role,
+          presentUserIds: getUsersInRoom(root.room),
+        })
+      : null;
+
+  // In a private thread the reply goes to whichever participant is not
+  // sending it.
+  const toRootSender = root.chatType === "private" && root.sender.toString() !== senderId;
+  const saved = await saveOnce(
+    new Message({
+      sender: sender._id,
+      firstName: sender.firstName,
+      lastName: sender.lastName,
+      senderProfilePicture: sender.profilePicture || "/default-avatar.png",
+      chatType: root.chatType,
+      room: root.room,
+      ...(root.chatType === "private" && {
+        receiver: toRootSender ? root.sender : root.receiver,
+        receiverFirstName: toRootSender ? root.firstName : root.receiverFirstName,
+        receiverLastName: toRootSender ? root.lastName : root.receiverLastName,
+      }),
+      text: input.text || undefined,
+      fileUrl: input.fileUrl || undefined,
+      fileType: input.fileType || undefined,
+      fileName: input.fileName || undefined,
+      replyTo,
+      mentions: mentions?.userIds,
+      clientId,
+      threadRoot: root._id,
+    })
+  );
+  if (saved.duplicate) return saved;
+
+  const channel = getMessageChannel(root);
+  if (channel) {
+    await recordMessageCreated(channel, saved.message);
+  }
+  if (mentions) {
+    await notifyMentions(saved.message, mentions);
+  }
+  return saved;
+}
+
+// Stores a private message and broadcasts it as receivePrivateMessage on the
+// conversation's channel. A receiver who has not joined the conversation gets
+// a privateMessageNotification instead.
+export async function sendPrivateMessage(
+  sender: IUser,
+  receiverId: string,
+  input: MessageInput
+): Promise<MessageSent | ServiceError> {
+  if (!mongoose.Types.ObjectId.isValid(receiverId)) {
+    return { error: "Invalid receiver ID", status: 400 };
+  }
+  const receiver = (await User.findById(receiverId)) as IUser | null;
+  if (!receiver) {
+    return { error: "Receiver user not found", status: 404 };
+  }
+  if (sender.banned || receiver.banned) {
+    return { error: "One or both users are banned", status: 403 };
+  }
+  const validated = validateSend(sender, input);
+  if ("error" in validated) return validated;
+  const { clientId } = validated;
+
+  const senderId = sender._id.toString();
+  const existing = await findSentMessage(senderId, clientId);
+  if (existing) {
+    return { message: formatMessage(existing), duplicate: true };
+  }
+
+  const replyTo = await resolveReplyTo(input.replyTo);
+  if (replyTo && "error" in replyTo) return replyTo;
+
+  const conversation = getPrivateRoomId(senderId, receiverId);
+  const saved = await saveOnce(
+    new Message({
+      sender: sender._id,
+      firstName: sender.firstName,
+      lastName: sender.lastName,
+      senderProfilePicture: sender.profilePicture || "/default-avatar.png",
+      receiver: receiver._id,
+      receiverFirstName: receiver.firstName,
+      receiverLastName: receiver.lastName,
+      text: input.text || undefined,
+      chatType: "private",
+      fileUrl: input.fileUrl || undefined,
+      fileType: input.fileType || undefined,
+      fileName: input.fileName || undefined,
+      replyTo,
+      clientId,
+    })
+  );
+  if (saved.duplicate) return { message: formatMessage(saved.message), duplicate: true };
+  await recordMessageCreated(conversation, saved.message);
+  const message = formatMessage(saved.message);
+
+  emitMessageEvent({
+    channel: conversation,
+    event: "receivePrivateMessage",
+    payload: toSocketMessage(message),
+  });
+
+  if (!getUsersInRoom(conversation).includes(receiverId)) {
+    const content = message.text || `[File: ${message.fileName || "Shared File"}]`;
+    emitMessageEvent({
+      channel: getUserChannel(receiverId),
+      event: "privateMessageNotification",
+      payload: {
+        senderId,
+        senderUsername: message.sender,
+        messageSnippet: content.length > 100 ? content.substring(0, 97) + "..." : content,
+        fullMessageId: message.id,
+        chatType: "private",
+        timestamp: message.timestamp,
+        fileUrl: message.fileUrl,
+        fileType: message.fileType,
+        fileName: message.fileName,
+      },
+    });
+  }
+
+  return { message, duplicate: false };
+}
+
+// Edits the text of a message and broadcasts it as messageEdited, along with
+// replySnapshotsUpdated for the replies quoting it.
+export async function editMessage(
+  messageId: string,
+  userId: string,
+  newText: unknown
+): Promise<{ message: FormattedMessage } | ServiceError> {
+  const result = await applyEdit(messageId, userId, newText);
+  if ("error" in result) return result;
+
+  const message = { ...formatMessage(result.message), seq: result.seq };
+  const channel = getMessageChannel(result.message);
+  if (channel) {
+    emitMessageEvent({ channel, event: "messageEdited", payload: message });
+    // Replies quoting the message carry a snapshot of its text.
+    if (result.replyIds.length > 0) {
+      emitMessageEvent({
+        channel,
+        event: "replySnapshotsUpdated",
+        payload: { messageId: message.id, text: message.text, replyIds: result.replyIds },
+      });
+    }
+  }
+  return { message };
+}
+
+// Pages through a room's or a private conversation's history, newest first.
+// Thread replies are left out; they are read through lib/threads. Private
+// messages the caller receives here count as delivered.
+export async function listMessages(
+  userId: string,
+  conversation: Conversation,
+  params: PageParams
+): Promise<MessagePage<FormattedMessage> | ServiceError> {
+  let filter: mongoose.FilterQuery<IMessage>;
+  if ("room" in conversation) {
+    filter = { chatType: "room", room: conversation.room, threadRoot: null };
+  } else {
+    if (!mongoose.Types.ObjectId.isValid(conversation.partnerId)) {
+      return { error: "Invalid other user ID format", status: 400 };
+    }
+    const user = new mongoose.Types.ObjectId(userId);
+    const partner = new mongoose.Types.ObjectId(conversation.partnerId);
+    filter = {
+      chatType: "private",
+      $or: [
+        { sender: user, receiver: partner },
+        { sender: partner, receiver: user },
+      ],
+      threadRoot: null,
+    };
+  }
+
+  const page = await findMessagePage(
+    filter,
+    params,
+    (pageFilter, direction, limit) =>
+      Message.find(pageFilter)
+        .sort(sortFor(direction))
+        .limit(limit)
+        .lean()
+        .exec() as unknown as Promise<StoredMessage[]>
+  );
+  if ("error" in page) return page;
+
+  // Show each sender's current profile picture rather than the one stored
+  // with the message.
+  const senders = await User.find({
+    _id: { $in: Array.from(new Set(page.messages.map((m) => m.sender.toString()))) },
+  })
+    .select("profilePicture")
+    .lean();
+  const pictures = new Map(senders.map((u) => [u._id.toString(), u.profilePicture]));
+
+  // The page was read before being marked, so it gets the new status too.
+  const undelivered = page.messages.filter(
+    (m) => m.chatType === "private" && m.receiver?.toString() === userId && !m.deliveredAt
+  );
+  const deliveredAt = new Date();
+  await markDelivered(
+    userId,
+    undelivered.map((m) => m._id.toString()),
+    deliveredAt
+  );
+  for (const m of undelivered) m.deliveredAt = deliveredAt;
+
+  return {
+    ...page,
+    messages: page.messages.map((m) => {
+      const message = formatMessage(m);
+      return {
+        ...message,
+        senderProfilePicture: pictures.get(message.senderId) || message.senderProfilePicture,
+      };
+    }),
+  };
+}
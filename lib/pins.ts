@@ -0,0 +1,165 @@
+import mongoose from "mongoose";
+import Message, { IMessage } from "../models/Message";
+import Room, { IRoom } from "../models/Room";
+import { getMessageChannel } from "./message-events";
+import { FormattedMessage, StoredMessage, formatMessage } from "./message-format";
+import { ModerationActor, canModerateRoomNamed } from "./room-moderation";
+import { emitSequencedEvent } from "./sync";
+
+export const MAX_PINNED_MESSAGES = 25;
+
+type PinError = { error: string; status: number };
+
+export type PinResult =
+  | { messageId: string; pinned: boolean; message: FormattedMessage }
+  | PinError;
+
+function conversationQuery(message: IMessage) {
+  if (message.chatType === "room") {
+    return { chatType: "room" as const, room: message.room };
+  }
+  return {
+    chatType: "private" as const,
+    $or: [
+      { sender: message.sender, receiver: message.receiver },
+      { sender: message.receiver, receiver: message.sender },
+    ],
+  };
+}
+
+// Room pins are limited to the room's creator, its moderators and admins;
+// either participant may pin in a private conversation.
+async function findPinnableMessage(
+  messageId: string,
+  actor: ModerationActor
+): Promise<IMessage | PinError> {
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    return { error: "Invalid message ID format", status: 400 };
+  }
+  const message = (await Message.findById(messageId)) as IMessage | null;
+  if (!message || message.deletedAt) {
+    return { error: "Message not found", status: 404 };
+  }
+  if (message.chatType === "private") {
+    if (
+      message.sender.toString() !== actor.userId &&
+      message.receiver?.toString() !== actor.userId
+    ) {
+      return { error: "Not authorized to pin messages in this conversation", status: 403 };
+    }
+    return message;
+  }
+  if (!(await canModerateRoomNamed(message.room, actor))) {
+    return {
+      error: "Only the room creator, a moderator or an admin can pin messages",
+      status: 403,
+    };
+  }
+  return message;
+}
+
+async function broadcastPin(message: IMessage, pinned: boolean): Promise<PinResult> {
+  const result = {
+    messageId: message._id.toString(),
+    pinned,
+    message: formatMessage(message),
+  };
+  const channel = getMessageChannel(message);
+  if (channel) {
+    await emitSequencedEvent(
+      { channel, event: pinned ? "messagePinned" : "messageUnpinned", payload: result },
+      pinned ? "pinned" : "unpinned",
+      message._id
+    );
+  }
+  return result;
+}
+
+export async function pinMessage(messageId: string, actor: ModerationActor): Promise<PinResult> {
+  const message = await findPinnableMessage(messageId, actor);
+  if ("error" in message) return message;
+  if (message.pinnedAt) {
+    return { messageId, pinned: true, message: formatMessage(message) };
+  }
+
+  const pinnedCount = await Message.countDocuments({
+    ...conversationQuery(message),
+    pinnedAt: { $ne: null },
+  });
+  if (pinnedCount >= MAX_PINNED_MESSAGES) {
+    return {
+      error: `A conversation can have at most ${MAX_PINNED_MESSAGES} pinned messages`,
+      status: 409,
+    };
+  }
+
+  const updated = (await Message.findByIdAndUpdate(
+    message._id,
+    { $set: { pinnedAt: new Date(), pinnedBy: new mongoose.Types.ObjectId(actor.userId) } },
+    { new: true }
+  )) as IMessage | null;
+  if (!updated) {
+    return { error: "Message not found", status: 404 };
+  }
+  return broadcastPin(updated, true);
+}
+
+export async function unpinMessage(messageId: string, actor: ModerationActor): Promise<PinResult> {
+  const message = await findPinnableMessage(messageId, actor);
+  if ("error" in message) return message;
+  if (!message.pinnedAt) {
+    return { messageId, pinned: false, message: formatMessage(message) };
+  }
+
+  const updated = (await Message.findByIdAndUpdate(
+    message._id,
+    { $set: { pinnedAt: null, pinnedBy: null } },
+    { new: true }
+  )) as IMessage | null;
+  if (!updated) {
+    return { error: "Message not found", status: 404 };
+  }
+  return broadcastPin(updated, false);
+}
+
+// Most recently pinned first.
+async function findPinned(query: mongoose.FilterQuery<IMessage>): Promise<FormattedMessage[]> {
+  const messages = (await Message.find({ ...query, pinnedAt: { $ne: null } })
+    .sort({ pinnedAt: -1 })
+    .limit(MAX_PINNED_MESSAGES)
+    .lean()) as unknown as StoredMessage[];
+  return messages.map(formatMessage);
+}
+
+export async function getRoomPins(
+  roomId: string
+): Promise<{ pins: FormattedMessage[] } | PinError> {
+  if (!mongoose.Types.ObjectId.isValid(roomId)) {
+    return { error: "Invalid room ID format", status: 400 };
+  }
+  const room = (await Room.findById(roomId)) as IRoom | null;
+  if (!room) {
+    return { error: "Room not found", status: 404 };
+  }
+  return { pins: await findPinned({ chatType: "room", room: room.name }) };
+}
+
+export async function getPrivatePins(
+  userId: string,
+  otherUserId: string
+): Promise<{ pins: FormattedMessage[] } | PinError> {
+  if (!mongoose.Types.ObjectId.isValid(otherUserId)) {
+    return { error: "Invalid other user ID format", status: 400 };
+  }
+  const user = new mongoose.Types.ObjectId(userId);
+  const other = new mongoose.Types.ObjectId(otherUserId);
+  return {
+    pins: await findPinned({
+      chatType: "private",
+      $or: [
+        { sender: user, receiver: other },
+        { sender: other, receiver: user },
+      ],
+    }),
+  };
+}
@@ -0,0 +1,14 @@
+// Next bundles route handlers separately from server.ts, and each bundle gets
+// its own copy of every module, so module-level state is not shared between
+// the two even though they run in one process. State that both sides need,
+// such as event emitters, is kept on the global object instead.
+
+// Returns the value stored on the global object under `key`, creating it with
+// `factory` the first time.
+export function processGlobal<T>(key: string, factory: () => T): T {
+  const store = global as unknown as Record<string, unknown>;
+  if (!(key in store)) {
+    store[key] = factory();
+  }
+  return store[key] as T;
+}
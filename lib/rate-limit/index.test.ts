@@ -0,0 +1,141 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { REMOTE_ADDRESS_HEADER } from "@/lib/client-ip";
+import { loadConfig, setConfig } from "@/lib/config";
+import {
+  RateLimitStore,
+  clearFailures,
+  createMemoryStore,
+  enforceRateLimit,
+  recordFailure,
+  setRateLimitStore,
+} from "./index";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+function requestFrom(ip: string): NextRequest {
+  return new NextRequest("http://localhost/api/auth", { headers: { [REMOTE_ADDRESS_HEADER]: ip } });
+}
+
+// Sends `count` requests and returns the results.
+async function send(count: number, ...args: Parameters<typeof enforceRateLimit>) {
+  const results = [];
+  for (let i = 0; i < count; i++) results.push(await enforceRateLimit(...args));
+  return results;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  setConfig(loadConfig({ NODE_ENV: "test" }));
+  setRateLimitStore(createMemoryStore());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  setConfig(null);
+  setRateLimitStore(null);
+});
+
+describe("enforceRateLimit", () => {
+  it("allows up to the per-IP limit and then locks the IP out for a minute", async () => {
+    const req = requestFrom("10.0.0.1");
+    const allowed = await send(10, "register", req);
+    expect(allowed.every((result) => !result.limited)).toBe(true);
+
+    expect(await enforceRateLimit("register", req)).toEqual({
+      limited: true,
+      retryAfterSeconds: 60,
+    });
+    vi.advanceTimersByTime(59 * 1000);
+    expect((await enforceRateLimit("register", req)).retryAfterSeconds).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    expect((await enforceRateLimit("register", req)).limited).toBe(false);
+  });
+
+  it("counts each IP separately", async () => {
+    await send(10, "register", requestFrom("10.0.0.1"));
+    expect((await enforceRateLimit("register", requestFrom("10.0.0.1"))).limited).toBe(true);
+    expect((await enforceRateLimit("register", requestFrom("10.0.0.2"))).limited).toBe(false);
+  });
+
+  it("only counts requests inside the window", async () => {
+    const req = requestFrom("10.0.0.1");
+    await send(10, "register", req);
+    vi.advanceTimersByTime(HOUR);
+    const results = await send(10, "register", req);
+    expect(results.every((result) => !result.limited)).toBe(true);
+  });
+
+  it("doubles each repeated lockout, up to an hour", async () => {
+    const req = requestFrom("10.0.0.1");
+    const lockouts = [];
+    for (let i = 0; i < 8; i++) {
+      await send(10, "register", req);
+      const result = await enforceRateLimit("register", req);
+      lockouts.push(result.retryAfterSeconds / 60);
+      vi.advanceTimersByTime(result.retryAfterSeconds * 1000);
+    }
+    expect(lockouts).toEqual([1, 2, 4, 8, 16, 32, 60, 60]);
+  });
+
+  it("limits an account across IPs, however its address is written", async () => {
+    for (const ip of ["10.0.0.1", "10.0.0.2", "10.0.0.3"]) {
+      const result = await enforceRateLimit("forgot-password", requestFrom(ip), "ada@example.com");
+      expect(result.limited).toBe(false);
+    }
+    const result = await enforceRateLimit(
+      "forgot-password",
+      requestFrom("10.0.0.4"),
+      " Ada@Example.com "
+    );
+    expect(result).toEqual({ limited: true, retryAfterSeconds: 60 });
+  });
+
+  it("fails open when the store is unavailable", async () => {
+    const down = async (): Promise<never> => {
+      throw new Error("down");
+    };
+    const failing: RateLimitStore = {
+      hit: down,
+      get: down,
+      set: down,
+      increment: down,
+      delete: down,
+    };
+    setRateLimitStore(failing);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await enforceRateLimit("register", requestFrom("10.0.0.1"))).toEqual({
+      limited: false,
+      retryAfterSeconds: 0,
+    });
+  });
+});
+
+describe("recordFailure", () => {
+  const account = "ada@example.com";
+
+  it("locks an account out after too many failures, but not for mere requests", async () => {
+    const results = await send(10, "login", requestFrom("10.0.0.1"), account);
+    expect(results.every((result) => !result.limited)).toBe(true);
+
+    for (let i = 0; i < 5; i++) await recordFailure("login", account);
+    expect((await enforceRateLimit("login", requestFrom("10.0.0.2"), account)).limited).toBe(false);
+
+    await recordFailure("login", account);
+    expect(await enforceRateLimit("login", requestFrom("10.0.0.3"), account)).toEqual({
+      limited: true,
+      retryAfterSeconds: 60,
+    });
+  });
+
+  it("starts counting again after clearFailures", async () => {
+    for (let i = 0; i < 5; i++) await recordFailure("login", account);
+    await clearFailures("login", account);
+    for (let i = 0; i < 5; i++) await recordFailure("login", account);
+    expect((await enforceRateLimit("login", requestFrom("10.0.0.1"), account)).limited).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from "next/server";
+import Redis from "ioredis";
+import { getClientIp } from "@/lib/client-ip";
+import { getConfig } from "@/lib/config";
+import { RateLimitStore } from "./types";
+import { createMemoryStore } from "./memory-store";
+import { createRedisStore } from "./redis-store";
+
+export type { RateLimitStore } from "./types";
+export { createMemoryStore } from "./memory-store";
+export { createRedisStore } from "./redis-store";
+
+export type RateLimitAction =
+  | "login"
+  | "register"
+  | "refresh"
+  | "forgot-password"
+  | "reset-password"
+  | "resend-verification"
+  | "two-factor";
+
+interface RateLimitWindow {
+  limit: number;
+  windowMs: number;
+}
+
+interface RateLimitRule {
+  ip: RateLimitWindow;
+  // When failuresOnly is set, only recordFailure() counts against the account;
+  // otherwise every request does.
+  account?: RateLimitWindow & { failuresOnly?: boolean };
+}
+
+export interface RateLimitResult {
+  limited: boolean;
+  retryAfterSeconds: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const RULES: Record<RateLimitAction, RateLimitRule> = {
+  login: {
+    ip: { limit: 30, windowMs: 15 * MINUTE },
+    account: { limit: 5, windowMs: 15 * MINUTE, failuresOnly: true },
+  },
+  register: { ip: { limit: 10, windowMs: HOUR } },
+  refresh: { ip: { limit: 60, windowMs: 15 * MINUTE } },
+  "forgot-password": {
+    ip: { limit: 10, windowMs: HOUR },
+    account: { limit: 3, windowMs: HOUR },
+  },
+  "reset-password": { ip: { limit: 10, windowMs: HOUR } },
+  "resend-verification": {
+    ip: { limit: 10, windowMs: HOUR },
+    account: { limit: 5, windowMs: HOUR },
+  },
+  "two-factor": {
+    ip: { limit: 30, windowMs: 15 * MINUTE },
+    account: { limit: 5, windowMs: 15 * MINUTE, failuresOnly: true },
+  },
+};
+
+// Each lockout of the same subject within STRIKE_TTL_MS doubles the previous
+// one, starting at BASE_LOCKOUT_MS and capped at MAX_LOCKOUT_MS.
+const BASE_LOCKOUT_MS = MINUTE;
+const MAX_LOCKOUT_MS = HOUR;
+const STRIKE_TTL_MS = 24 * HOUR;
+
+const NOT_LIMITED: RateLimitResult = { limited: false, retryAfterSeconds: 0 };
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const { redisUrl } = getConfig();
+    store = redisUrl ? createRedisStore(new Redis(redisUrl)) : createMemoryStore();
+  }
+  return store;
+}
+
+// Replaces the store picked from the environment, e.g. in tests.
+export function setRateLimitStore(override: RateLimitStore | null): void {
+  store = override;
+}
+
+function normalizeAccount(account: string): string {
+  return account.trim().toLowerCase();
+}
+
+function limitedFor(ms: number): RateLimitResult {
+  return { limited: true, retryAfterSeconds: Math.max(1, Math.ceil(ms / 1000)) };
+}
+
+async function remainingLockout(subject: string): Promise<number> {
+  const lockedUntil = await getRateLimitStore().get(`rl:lock:${subject}`);
+  return lockedUntil ? Math.max(0, lockedUntil - Date.now()) : 0;
+}
+
+async function lockOut(subject: string): Promise<number> {
+  const rateLimitStore = getRateLimitStore();
+  const strikes = await rateLimitStore.increment(`rl:strikes:${subject}`, STRIKE_TTL_MS);
+  const duration = Math.min(BASE_LOCKOUT_MS * 2 ** (strikes - 1), MAX_LOCKOUT_MS);
+  await rateLimitStore.set(`rl:lock:${subject}`, Date.now() + duration, duration);
+  await rateLimitStore.delete(`rl:hits:${subject}`);
+  return duration;
+}
+
+async function countHit(subject: string, window: RateLimitWindow): Promise<RateLimitResult> {
+  const count = await getRateLimitStore().hit(`rl:hits:${subject}`, Date.now(), window.windowMs);
+  if (count > window.limit) {
+    return limitedFor(await lockOut(subject));
+  }
+  return NOT_LIMITED;
+}
+
+// Checks the per-IP and (if given) per-account limits for an auth action and
+// counts this request against them. Fails open if the store is unavailable.
+export async function enforceRateLimit(
+  action: RateLimitAction,
+  req: NextRequest,
+  account?: string
+): Promise<RateLimitResult> {
+  const rule = RULES[action];
+  const ipSubject = `${action}:ip:${getClientIp(req) || "unknown"}`;
+  const accountSubject =
+    account && rule.account ? `${action}:account:${normalizeAccount(account)}` : null;
+
+  try {
+    for (const subject of [ipSubject, accountSubject]) {
+      if (!subject) continue;
+      const remaining = await remainingLockout(subject);
+      if (remaining > 0) return limitedFor(remaining);
+    }
+
+    const ipResult = await countHit(ipSubject, rule.ip);
+    if (ipResult.limited) return ipResult;
+
+    if (accountSubject && rule.account && !rule.account.failuresOnly) {
+      return await countHit(accountSubject, rule.account);
+    }
+    return NOT_LIMITED;
+  } catch (error) {
+    console.error(`Rate limit check failed for ${action}:`, error);
+    return NOT_LIMITED;
+  }
+}
+
+// Counts a failed attempt (wrong password, wrong code) against the account.
+export async function recordFailure(action: RateLimitAction, account: string): Promise<void> {
+  const rule = RULES[action];
+  if (!rule.account) return;
+  try {
+    await countHit(`${action}:account:${normalizeAccount(account)}`, rule.account);
+  } catch (error) {
+    console.error(`Failed to record rate limit failure for ${action}:`, error);
+  }
+}
+
+// Forgets earlier failures after a successful attempt. Strikes are kept, so a
+// later lockout still escalates.
+export async function clearFailures(action: RateLimitAction, account: string): Promise<void> {
+  try {
+    await getRateLimitStore().delete(`rl:hits:${action}:account:${normalizeAccount(account)}`);
+  } catch (error) {
+    console.error(`Failed to clear rate limit failures for ${action}:`, error);
+  }
+}
+
+export function rateLimitResponse(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    {
+      message: `Too many attempts. Please try again in ${result.retryAfterSeconds} seconds.`,
+      retryAfter: result.retryAfterSeconds,
+    },
+    { status: 429, headers: { "Retry-After": result.retryAfterSeconds.toString() } }
+  );
+}
@@ -0,0 +1,63 @@
+import { RateLimitStore } from "./types";
+
+// How often writes also drop keys whose window or TTL has passed, so that
+// keys which are never seen again do not stay in memory.
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Per-process store. Fine for a single instance and for tests; use the Redis
+// store when running more than one.
+export function createMemoryStore(): RateLimitStore {
+  const hits = new Map<string, { timestamps: number[]; expiresAt: number }>();
+  const values = new Map<string, { value: number; expiresAt: number }>();
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = now;
+    for (const [key, entry] of hits) {
+      if (entry.expiresAt <= now) hits.delete(key);
+    }
+    for (const [key, entry] of values) {
+      if (entry.expiresAt <= now) values.delete(key);
+    }
+  };
+
+  const readValue = (key: string): number | null => {
+    const entry = values.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      values.delete(key);
+      return null;
+    }
+    return entry.value;
+  };
+
+  return {
+    async hit(key, now, windowMs) {
+      sweep(now);
+      const recent = (hits.get(key)?.timestamps || []).filter(
+        (timestamp) => timestamp > now - windowMs
+      );
+      recent.push(now);
+      hits.set(key, { timestamps: recent, expiresAt: now + windowMs });
+      return recent.length;
+    },
+    async get(key) {
+      return readValue(key);
+    },
+    async set(key, value, ttlMs) {
+      sweep(Date.now());
+      values.set(key, { value, expiresAt: Date.now() + ttlMs });
+    },
+    async increment(key, ttlMs) {
+      sweep(Date.now());
+      const value = (readValue(key) || 0) + 1;
+      values.set(key, { value, expiresAt: Date.now() + ttlMs });
+      return value;
+    },
+    async delete(key) {
+      hits.delete(key);
+      values.delete(key);
+    },
+  };
+}
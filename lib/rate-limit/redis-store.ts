@@ -0,0 +1,39 @@
+import { randomBytes } from "crypto";
+import type Redis from "ioredis";
+import { RateLimitStore } from "./types";
+
+// Sliding-window log kept in a sorted set per key, so every instance sharing
+// the Redis server sees the same counts.
+export function createRedisStore(client: Redis): RateLimitStore {
+  return {
+    async hit(key, now, windowMs) {
+      const member = `${now}-${randomBytes(4).toString("hex")}`;
+      const results = await client
+        .multi()
+        .zremrangebyscore(key, 0, now - windowMs)
+        .zadd(key, now, member)
+        .zcard(key)
+        .pexpire(key, windowMs)
+        .exec();
+      const [error, count] = results?.[2] || [];
+      if (error) throw error;
+      return Number(count);
+    },
+    async get(key) {
+      const value = await client.get(key);
+      return value === null ? null : Number(value);
+    },
+    async set(key, value, ttlMs) {
+      await client.set(key, value.toString(), "PX", ttlMs);
+    },
+    async increment(key, ttlMs) {
+      const results = await client.multi().incr(key).pexpire(key, ttlMs).exec();
+      const [error, value] = results?.[0] || [];
+      if (error) throw error;
+      return Number(value);
+    },
+    async delete(key) {
+      await client.del(key);
+    },
+  };
+}
@@ -0,0 +1,9 @@
+export interface RateLimitStore {
+  // Records a hit at `now` and returns how many hits fall within the window
+  // ending at `now`, including this one.
+  hit(key: string, now: number, windowMs: number): Promise<number>;
+  get(key: string): Promise<number | null>;
+  set(key: string, value: number, ttlMs: number): Promise<void>;
+  increment(key: string, ttlMs: number): Promise<number>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,156 @@
+import mongoose from "mongoose";
+import Message, { IMessage } from "../models/Message";
+import { ReactionSummary } from "../models/types";
+import { getMessageChannel } from "./message-events";
+import { emitSequencedEvent } from "./sync";
+
+export const MAX_DISTINCT_REACTIONS = 20;
+export const MAX_REACTIONS_PER_USER = 10;
+const MAX_EMOJI_LENGTH = 32;
+
+export type { ReactionSummary } from "../models/types";
+
+export type ReactionResult =
+  | { messageId: string; reactions: ReactionSummary[] }
+  | { error: string; status: number };
+
+type StoredReactions =
+  | Map<string, { toString(): string }[]>
+  | Record<string, { toString(): string }[]>
+  | undefined;
+
+// Accepts both hydrated documents (Map) and lean results (plain object).
+export function summarizeReactions(reactions: StoredReactions): ReactionSummary[] {
+  if (!reactions) return [];
+  const entries =
+    reactions instanceof Map ? Array.from(reactions.entries()) : Object.entries(reactions);
+  return entries
+    .filter(([, userIds]) => userIds.length > 0)
+    .map(([emoji, userIds]) => ({
+      emoji,
+      count: userIds.length,
+      userIds: userIds.map((id) => id.toString()),
+    }));
+}
+
+// Reactions are stored under the emoji as a map key, so "." and "$" are
+// rejected along with plain ASCII text.
+export function isValidReactionEmoji(emoji: unknown): emoji is string {
+  return (
+    typeof emoji === "string" &&
+    emoji.length > 0 &&
+    emoji.length <= MAX_EMOJI_LENGTH &&
+    !/[\s.$]/.test(emoji) &&
+    Array.from(emoji).some((char) => char.codePointAt(0)! > 0x7f)
+  );
+}
+
+async function findReactableMessage(
+  messageId: string,
+  userId: string
+): Promise<IMessage | { error: string; status: number }> {
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    return { error: "Invalid message ID format", status: 400 };
+  }
+  const message = (await Message.findById(messageId)) as IMessage | null;
+  if (!message || message.deletedAt) {
+    return { error: "Message not found", status: 404 };
+  }
+  if (
+    message.chatType === "private" &&
+    message.sender.toString() !== userId &&
+    message.receiver?.toString() !== userId
+  ) {
+    return { error: "Not authorized to react to this message", status: 403 };
+  }
+  return message;
+}
+
+async function broadcastReactions(message: IMessage): Promise<ReactionResult> {
+  const result = {
+    messageId: message._id.toString(),
+    reactions: summarizeReactions(message.reactions),
+  };
+  const channel = getMessageChannel(message);
+  if (channel) {
+    await emitSequencedEvent(
+      { channel, event: "reactionUpdated", payload: result },
+      "reactions",
+      message._id
+    );
+  }
+  return result;
+}
+
+export async function addReaction(
+  messageId: string,
+  userId: string,
+  emoji: unknown
+): Promise<ReactionResult> {
+  if (!isValidReactionEmoji(emoji)) {
+    return { error: "Invalid reaction emoji", status: 400 };
+  }
+  const message = await findReactableMessage(messageId, userId);
+  if ("error" in message) return message;
+
+  const reactors = message.reactions.get(emoji) || [];
+  if (reactors.some((id) => id.toString() === userId)) {
+    return { messageId, reactions: summarizeReactions(message.reactions) };
+  }
+  if (reactors.length === 0 && message.reactions.size >= MAX_DISTINCT_REACTIONS) {
+    return { error: "This message has too many different reactions", status: 409 };
+  }
+  const userReactionCount = Array.from(message.reactions.values()).filter((ids) =>
+    ids.some((id) => id.toString() === userId)
+  ).length;
+  if (userReactionCount >= MAX_REACTIONS_PER_USER) {
+    return { error: "You have reached the reaction limit for this message", status: 409 };
+  }
+
+  const updated = (await Message.findByIdAndUpdate(
+    message._id,
+    { $addToSet: { [`reactions.${emoji}`]: new mongoose.Types.ObjectId(userId) } },
+    { new: true }
+  )) as IMessage | null;
+  if (!updated) {
+    return { error: "Message not found", status: 404 };
+  }
+  return broadcastReactions(updated);
+}
+
+export async function removeReaction(
+  messageId: string,
+  userId: string,
+  emoji: unknown
+): Promise<ReactionResult> {
+  if (!isValidReactionEmoji(emoji)) {
+    return { error: "Invalid reaction emoji", status: 400 };
+  }
+  const message = await findReactableMessage(messageId, userId);
+  if ("error" in message) return message;
+
+  const reactors = message.reactions.get(emoji) || [];
+  if (!reactors.some((id) => id.toString() === userId)) {
+    return { messageId, reactions: summarizeReactions(message.reactions) };
+  }
+
+  let updated = (await Message.findByIdAndUpdate(
+    message._id,
+    { $pull: { [`reactions.${emoji}`]: new mongoose.Types.ObjectId(userId) } },
+    { new: true }
+  )) as IMessage | null;
+  // Drop the emoji key once nobody is left on it, unless someone reacted in
+  // the meantime.
+  if (updated && (updated.reactions.get(emoji) || []).length === 0) {
+    updated =
+      ((await Message.findOneAndUpdate(
+        { _id: message._id, [`reactions.${emoji}`]: { $size: 0 } },
+        { $unset: { [`reactions.${emoji}`]: 1 } },
+        { new: true }
+      )) as IMessage | null) || updated;
+  }
+  if (!updated) {
+    return { error: "Message not found", status: 404 };
+  }
+  return broadcastReactions(updated);
+}
@@ -0,0 +1,300 @@
+import mongoose from "mongoose";
+import Message, { IMessage } from "../models/Message";
+import ReadCursor, { IReadCursor } from "../models/ReadCursor";
+import Room from "../models/Room";
+import { markReadThrough } from "./delivery";
+import { emitMessageEvent, getPrivateRoomId } from "./message-events";
+
+type ReadError = { error: string; status: number };
+
+// Exactly one of the two is set.
+export interface ReadTarget {
+  room?: string;
+  partnerId?: string;
+}
+
+export interface ReadCursorSummary {
+  conversation: string;
+  chatType: "room" | "private";
+  room?: string;
+  partnerId?: string;
+  lastReadMessageId: string | null;
+  lastReadAt: string | null;
+  unreadCount: number;
+}
+
+interface Conversation {
+  key: string;
+  chatType: "room" | "private";
+  room?: string;
+  partner?: mongoose.Types.ObjectId;
+  query: mongoose.FilterQuery<IMessage>;
+}
+
+type StoredCursor = Pick<IReadCursor, "lastReadMessage" | "lastReadAt">;
+
+function roomConversation(room: string): Conversation {
+  return { key: room, chatType: "room", room, query: { chatType: "room", room } };
+}
+
+function privateConversation(userId: string, partnerId: string): Conversation {
+  const user = new mongoose.Types.ObjectId(userId);
+  const partner = new mongoose.Types.ObjectId(partnerId);
+  return {
+    key: getPrivateRoomId(userId, partnerId),
+    chatType: "private",
+    partner,
+    query: {
+      chatType: "private",
+      $or: [
+        { sender: user, receiver: partner },
+        { sender: partner, receiver: user },
+      ],
+    },
+  };
+}
+
+async function resolveConversation(
+  userId: string,
+  { room, partnerId }: ReadTarget
+): Promise<Conversation | ReadError> {
+  if (!room === !partnerId) {
+    return { error: "Exactly one of room or receiverId is required", status: 400 };
+  }
+  if (room) {
+    if (!(await Room.exists({ name: room }))) {
+      return { error: "Room not found", status: 404 };
+    }
+    return roomConversation(room);
+  }
+  if (!mongoose.Types.ObjectId.isValid(partnerId!) || partnerId === userId) {
+    return { error: "Invalid receiver ID", status: 400 };
+  }
+  return privateConversation(userId, partnerId!);
+}
+
+// Thread replies are not counted: they are not part of the main listings.
+function countUnread(conversation: Conversation, userId: string, since: Date | null) {
+  return Message.countDocuments({
+    ...conversation.query,
+    threadRoot: null,
+    deletedAt: null,
+    sender: { $ne: new mongoose.Types.ObjectId(userId) },
+    ...(since ? { createdAt: { $gt: since } } : {}),
+  });
+}
+
+function summarize(
+  conversation: Conversation,
+  cursor: StoredCursor | null,
+  unreadCount: number
+): ReadCursorSummary {
+  return {
+    conversation: conversation.key,
+    chatType: conversation.chatType,
+    room: conversation.room,
+    partnerId: conversation.partner?.toString(),
+    lastReadMessageId: cursor ? cursor.lastReadMessage.toString() : null,
+    lastReadAt: cursor ? cursor.lastReadAt.toISOString() : null,
+    unreadCount,
+  };
+}
+
+// Moves the cursor to `message` unless a concurrent read has already moved it
+// as far or further, in which case null is returned.
+async function advanceCursor(
+  userId: string,
+  conversation: Conversation,
+  message: IMessage
+): Promise<IReadCursor | null> {
+  try {
+    return (await ReadCursor.findOneAndUpdate(
+      { user: userId, conversation: conversation.key, lastReadAt: { $lt: message.createdAt } },
+      {
+        $set: {
+          chatType: conversation.chatType,
+          room: conversation.room,
+          partner: conversation.partner,
+          lastReadMessage: message._id,
+          lastReadAt: message.createdAt,
+        },
+      },
+      { upsert: true, new: true }
+    )) as IReadCursor;
+  } catch (error) {
+    // The upsert ran into the existing cursor, which the filter skipped
+    // because it is not behind `message`.
+    if ((error as { code?: number }).code === 11000) return null;
+    throw error;
+  }
+}
+
+// Moves the user's read cursor up to `messageId`, or to the latest message
+// when none is given. Cursors never move backwards. In a private conversation
+// the partner's messages up to that point are marked read (see lib/delivery)
+// and a readReceipt is broadcast to both participants.
+export async function markRead(
+  userId: string,
+  target: ReadTarget,
+  messageId?: string
+): Promise<ReadCursorSummary | ReadError> {
+  const conversation = await resolveConversation(userId, target);
+  if ("error" in conversation) return conversation;
+
+  let message: IMessage | null;
+  if (messageId) {
+    if (!mongoose.Types.ObjectId.isValid(messageId)) {
+      return { error: "Invalid message ID format", status: 400 };
+    }
+    message = (await Message.findOne({
+      ...conversation.query,
+      _id: messageId,
+    })) as IMessage | null;
+    if (!message) {
+      return { error: "Message not found in this conversation", status: 404 };
+    }
+  } else {
+    message = (await Message.findOne({ ...conversation.query, threadRoot: null }).sort({
+      createdAt: -1,
+    })) as IMessage | null;
+  }
+
+  let cursor = (await ReadCursor.findOne({
+    user: userId,
+    conversation: conversation.key,
+  })) as IReadCursor | null;
+
+  if (message && (!cursor || cursor.lastReadAt < message.createdAt)) {
+    const advanced = await advanceCursor(userId, conversation, message);
+    if (advanced) {
+      cursor = advanced;
+      if (conversation.chatType === "private") {
+        await markReadThrough(userId, conversation.partner!.toString(), message.createdAt);
+        emitMessageEvent({
+          channel: conversation.key,
+          event: "readReceipt",
+          payload: {
+            readerId: userId,
+            partnerId: conversation.partner!.toString(),
+            lastReadMessageId: message._id.toString(),
+            lastReadAt: message.createdAt.toISOString(),
+          },
+        });
+      }
+    } else {
+      // A concurrent read got further; report where it left the cursor.
+      cursor = (await ReadCursor.findOne({
+        user: userId,
+        conversation: conversation.key,
+      })) as IReadCursor | null;
+    }
+  }
+
+  const unreadCount = await countUnread(conversation, userId, cursor?.lastReadAt || null);
+  return summarize(conversation, cursor, unreadCount);
+}
+
+// Unread counts for many conversations at once, keyed by room name or by
+// partner id. `field` is what tells the conversations apart; `readUpTo` holds
+// each one's read position, and conversations missing from it count all
+// their messages.
+async function countUnreadGrouped(
+  userId: string,
+  query: mongoose.FilterQuery<IMessage>,
+  field: "room" | "sender",
+  readUpTo: Map<string, Date>
+): Promise<Map<string, number>> {
+  const toValue = (key: string) =>
+    field === "sender" ? new mongoose.Types.ObjectId(key) : key;
+  const groups = await Message.aggregate<{ _id: unknown; count: number }>([
+    {
+      $match: {
+        ...query,
+        threadRoot: null,
+        deletedAt: null,
+        sender: { $ne: new mongoose.Types.ObjectId(userId) },
+        $or: [
+          ...Array.from(readUpTo, ([key, lastReadAt]) => ({
+            [field]: toValue(key),
+            createdAt: { $gt: lastReadAt },
+          })),
+          { [field]: { $nin: Array.from(readUpTo.keys()).map(toValue) } },
+        ],
+      },
+    },
+    { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+  ]);
+  return new Map(groups.map((group) => [String(group._id), group.count]));
+}
+
+// Unread counts for the rooms the user has read in, created or moderates, and
+// for every user who has sent them a private message. Rooms have no member
+// list, so a room the user has never opened is left out. Private
+// conversations without a cursor count all messages as unread.
+export async function getUnreadCounts(userId: string): Promise<{
+  rooms: ReadCursorSummary[];
+  privateChats: ReadCursorSummary[];
+  totalUnread: number;
+}> {
+  const cursors = (await ReadCursor.find({ user: userId }).lean()) as unknown as Array<
+    StoredCursor & Pick<IReadCursor, "conversation" | "chatType">
+  >;
+  const cursorByConversation = new Map(cursors.map((c) => [c.conversation, c]));
+
+  const user = new mongoose.Types.ObjectId(userId);
+  const readRooms = cursors.filter((c) => c.chatType === "room").map((c) => c.conversation);
+  const rooms = (
+    await Room.find({
+      $or: [{ name: { $in: readRooms } }, { creator: user }, { moderators: user }],
+    })
+      .select("name")
+      .lean()
+  ).map((room) => roomConversation(room.name));
+  const partners = (
+    await Message.distinct("sender", {
+      chatType: "private",
+      receiver: user,
+    })
+  ).map((partner) => privateConversation(userId, partner.toString()));
+
+  const readUpTo = (conversations: Conversation[], keyOf: (c: Conversation) => string) => {
+    const positions = new Map<string, Date>();
+    for (const conversation of conversations) {
+      const cursor = cursorByConversation.get(conversation.key);
+      if (cursor) positions.set(keyOf(conversation), cursor.lastReadAt);
+    }
+    return positions;
+  };
+
+  const roomUnread = await countUnreadGrouped(
+    userId,
+    { chatType: "room", room: { $in: rooms.map((c) => c.room!) } },
+    "room",
+    readUpTo(rooms, (c) => c.room!)
+  );
+  // Only the partner's messages count, so grouping the ones the user
+  // received by sender covers each private conversation.
+  const privateUnread = await countUnreadGrouped(
+    userId,
+    { chatType: "private", receiver: user },
+    "sender",
+    readUpTo(partners, (c) => c.partner!.toString())
+  );
+
+  const roomCounts = rooms.map((c) =>
+    summarize(c, cursorByConversation.get(c.key) || null, roomUnread.get(c.room!) || 0)
+  );
+  const privateCounts = partners.map((c) =>
+    summarize(
+      c,
+      cursorByConversation.get(c.key) || null,
+      privateUnread.get(c.partner!.toString()) || 0
+    )
+  );
+
+  return {
+    rooms: roomCounts,
+    privateChats: privateCounts,
+    totalUnread: [...roomCounts, ...privateCounts].reduce((sum, c) => sum + c.unreadCount, 0),
+  };
+}
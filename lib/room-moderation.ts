@@ -0,0 +1,29 @@
+import Room, { IRoom } from "../models/Room";
+import { IUser } from "../models/User";
+
+// The identity moderation rights are checked against; the role comes from the
+// verified token or socket, not from the stored user.
+export interface ModerationActor {
+  userId: string;
+  role?: IUser["role"];
+}
+
+// Admins, the room's creator and its moderators.
+export function canModerateRoom(room: IRoom, actor: ModerationActor): boolean {
+  return (
+    actor.role === "admin" ||
+    room.creator?.toString() === actor.userId ||
+    room.moderators.some((id) => id.toString() === actor.userId)
+  );
+}
+
+// Messages refer to their room by name rather than id.
+export async function canModerateRoomNamed(
+  roomName: string | undefined,
+  actor: ModerationActor
+): Promise<boolean> {
+  if (actor.role === "admin") return true;
+  if (!roomName) return false;
+  const room = (await Room.findOne({ name: roomName })) as IRoom | null;
+  return !!room && canModerateRoom(room, actor);
+}
@@ -0,0 +1,19 @@
+// Lets code outside the socket server (e.g. a REST route resolving @here)
+// ask which users are currently in a room. The socket server registers the
+// lookup at startup; until then every room is empty.
+import { processGlobal } from "./process-global";
+
+type RoomPresenceLookup = (room: string) => string[];
+
+const roomPresence = processGlobal("roomPresence", () => ({
+  lookup: null as RoomPresenceLookup | null,
+}));
+
+export function setRoomPresenceLookup(lookup: RoomPresenceLookup): void {
+  roomPresence.lookup = lookup;
+}
+
+// Ids of the users with a socket in `room`.
+export function getUsersInRoom(room: string): string[] {
+  return roomPresence.lookup ? roomPresence.lookup(room) : [];
+}
@@ -0,0 +1,363 @@
+import mongoose from "mongoose";
+import Room from "../models/Room";
+import ScheduledMessage, { IScheduledMessage } from "../models/ScheduledMessage";
+import User, { IUser } from "../models/User";
+import { MessageFileType, ScheduledMessage as WireScheduledMessage } from "../models/types";
+import { canSendMessages } from "./email-verification-policy";
+import { emitMessageEvent, getUserChannel } from "./message-events";
+import { MessageInput, sendPrivateMessage, sendRoomMessage } from "./message-service";
+
+export const MAX_SCHEDULE_AHEAD_DAYS = 30;
+export const MAX_PENDING_SCHEDULED_MESSAGES = 100;
+// Rows left in "sending" this long, e.g. by a crash mid-delivery, are
+// claimed again. Delivery is keyed on the row id, so a message that did go
+// out is not sent twice.
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+// After this many claims a row that still has not gone out is marked failed.
+const MAX_DELIVERY_ATTEMPTS = 3;
+const DELIVERY_BATCH_SIZE = 100;
+
+type ScheduleError = { error: string; status: number };
+
+export interface ScheduleInput {
+  // Exactly one of room and receiverId.
+  room?: string;
+  receiverId?: string;
+  sendAt?: unknown;
+  text?: string;
+  fileUrl?: string;
+  fileType?: IScheduledMessage["fileType"];
+  fileName?: string;
+  replyToId?: string;
+}
+
+export type ScheduledMessageChanges = Pick<
+  ScheduleInput,
+  "sendAt" | "text" | "fileUrl" | "fileType" | "fileName"
+>;
+
+// The file types a delivered Message accepts.
+const FILE_TYPES: MessageFileType[] = ["image", "video", "audio", "document", "other"];
+
+function checkFileType(fileType: unknown): ScheduleError | null {
+  if (fileType && !FILE_TYPES.includes(fileType as MessageFileType)) {
+    return { error: `fileType must be one of ${FILE_TYPES.join(", ")}`, status: 400 };
+  }
+  return null;
+}
+
+function toValidationError(error: unknown): ScheduleError | null {
+  if (error instanceof mongoose.Error.ValidationError) {
+    return {
+      error: Object.values(error.errors)
+        .map((err) => err.message)
+        .join(", "),
+      status: 400,
+    };
+  }
+  return null;
+}
+
+export function formatScheduledMessage(scheduled: IScheduledMessage): WireScheduledMessage {
+  return {
+    id: scheduled._id.toString(),
+    chatType: scheduled.chatType,
+    room: scheduled.room || undefined,
+    receiverId: scheduled.receiver ? scheduled.receiver.toString() : undefined,
+    text: scheduled.text || undefined,
+    fileUrl: scheduled.fileUrl || undefined,
+    fileType: scheduled.fileType || undefined,
+    fileName: scheduled.fileName || undefined,
+    replyToId: scheduled.replyTo ? scheduled.replyTo.toString() : undefined,
+    sendAt: scheduled.sendAt.toISOString(),
+    status: scheduled.status,
+    messageId: scheduled.message ? scheduled.message.toString() : undefined,
+    failureReason: scheduled.failureReason || undefined,
+    createdAt: scheduled.createdAt.toISOString(),
+  };
+}
+
+function parseSendAt(value: unknown, now: Date): Date | ScheduleError {
+  const sendAt =
+    typeof value === "string" || typeof value === "number" ? new Date(value) : null;
+  if (!sendAt || Number.isNaN(sendAt.getTime())) {
+    return { error: "sendAt must be a valid date", status: 400 };
+  }
+  if (sendAt.getTime() <= now.getTime()) {
+    return { error: "sendAt must be in the future", status: 400 };
+  }
+  if (sendAt.getTime() - now.getTime() > MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    return {
+      error: `Messages can be scheduled at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`,
+      status: 400,
+    };
+  }
+  return sendAt;
+}
+
+// Stores a message for the scheduler to send at `sendAt`. Whether the sender
+// may post is checked again at delivery.
+export async function scheduleMessage(
+  sender: IUser,
+  { room, receiverId, sendAt, text, fileUrl, fileType, fileName, replyToId }: ScheduleInput
+): Promise<WireScheduledMessage | ScheduleError> {
+  if (!text && !fileUrl) {
+    return { error: "Message cannot be empty", status: 400 };
+  }
+  if (!room === !receiverId) {
+    return { error: "Exactly one of room or receiverId is required", status: 400 };
+  }
+  if (sender.banned) {
+    return { error: "User is banned", status: 403 };
+  }
+  if (!canSendMessages(sender)) {
+    return { error: "Please verify your email address before sending messages", status: 403 };
+  }
+
+  if (room) {
+    if (!(await Room.exists({ name: room }))) {
+      return { error: "Room not found", status: 404 };
+    }
+  } else {
+    if (!mongoose.Types.ObjectId.isValid(receiverId!)) {
+      return { error: "Invalid receiver ID", status: 400 };
+    }
+    if (!(await User.exists({ _id: receiverId }))) {
+      return { error: "Receiver user not found", status: 404 };
+    }
+  }
+  if (replyToId && !mongoose.Types.ObjectId.isValid(replyToId)) {
+    return { error: "Invalid reply message ID", status: 400 };
+  }
+  const fileTypeError = checkFileType(fileType);
+  if (fileTypeError) return fileTypeError;
+
+  const parsedSendAt = parseSendAt(sendAt, new Date());
+  if ("error" in parsedSendAt) return parsedSendAt;
+
+  const pending = await ScheduledMessage.countDocuments({
+    sender: sender._id,
+    status: "pending",
+  });
+  if (pending >= MAX_PENDING_SCHEDULED_MESSAGES) {
+    return {
+      error: `You can have at most ${MAX_PENDING_SCHEDULED_MESSAGES} pending scheduled messages`,
+      status: 400,
+    };
+  }
+
+  try {
+    const scheduled = await ScheduledMessage.create({
+      sender: sender._id,
+      chatType: room ? "room" : "private",
+      room: room || undefined,
+      receiver: receiverId || undefined,
+      text: text || undefined,
+      fileUrl: fileUrl || undefined,
+      fileType: fileType || undefined,
+      fileName: fileName || undefined,
+      replyTo: replyToId || null,
+      sendAt: parsedSendAt,
+    });
+    return formatScheduledMessage(scheduled);
+  } catch (error) {
+    const validationError = toValidationError(error);
+    if (validationError) return validationError;
+    throw error;
+  }
+}
+
+// The author's pending scheduled messages, soonest first.
+export async function listScheduledMessages(
+  userId: string
+): Promise<{ scheduled: WireScheduledMessage[] }> {
+  const scheduled = (await ScheduledMessage.find({
+    sender: userId,
+    status: { $in: ["pending", "sending"] },
+  }).sort({ sendAt: 1 })) as IScheduledMessage[];
+  return { scheduled: scheduled.map(formatScheduledMessage) };
+}
+
+async function findOwnPending(
+  scheduledId: string,
+  userId: string
+): Promise<IScheduledMessage | ScheduleError> {
+  if (!mongoose.Types.ObjectId.isValid(scheduledId)) {
+    return { error: "Invalid scheduled message ID format", status: 400 };
+  }
+  const scheduled = (await ScheduledMessage.findOne({
+    _id: scheduledId,
+    sender: userId,
+  })) as IScheduledMessage | null;
+  if (!scheduled) {
+    return { error: "Scheduled message not found", status: 404 };
+  }
+  if (scheduled.status !== "pending") {
+    return { error: `Scheduled message is already ${scheduled.status}`, status: 409 };
+  }
+  return scheduled;
+}
+
+// Changes the content or time of a pending scheduled message.
+export async function updateScheduledMessage(
+  scheduledId: string,
+  userId: string,
+  changes: ScheduledMessageChanges
+): Promise<WireScheduledMessage | ScheduleError> {
+  const scheduled = await findOwnPending(scheduledId, userId);
+  if ("error" in scheduled) return scheduled;
+
+  const fileTypeError = checkFileType(changes.fileType);
+  if (fileTypeError) return fileTypeError;
+
+  const $set: Record<string, unknown> = {};
+  if (changes.sendAt !== undefined) {
+    const sendAt = parseSendAt(changes.sendAt, new Date());
+    if ("error" in sendAt) return sendAt;
+    $set.sendAt = sendAt;
+  }
+  // An empty value clears the field.
+  for (const field of ["text", "fileUrl", "fileType", "fileName"] as const) {
+    if (changes[field] !== undefined) {
+      $set[field] = changes[field] || null;
+    }
+  }
+  const text = "text" in $set ? $set.text : scheduled.text;
+  const fileUrl = "fileUrl" in $set ? $set.fileUrl : scheduled.fileUrl;
+  if (!text && !fileUrl) {
+    return { error: "Message cannot be empty", status: 400 };
+  }
+
+  // Matching on the status makes the edit fail if the scheduler claimed the
+  // message in the meantime.
+  let updated: IScheduledMessage | null;
+  try {
+    updated = (await ScheduledMessage.findOneAndUpdate(
+      { _id: scheduled._id, status: "pending" },
+      { $set },
+      { new: true, runValidators: true }
+    )) as IScheduledMessage | null;
+  } catch (error) {
+    const validationError = toValidationError(error);
+    if (validationError) return validationError;
+    throw error;
+  }
+  if (!updated) {
+    return { error: "Scheduled message is no longer pending", status: 409 };
+  }
+  return formatScheduledMessage(updated);
+}
+
+export async function cancelScheduledMessage(
+  scheduledId: string,
+  userId: string
+): Promise<WireScheduledMessage | ScheduleError> {
+  const scheduled = await findOwnPending(scheduledId, userId);
+  if ("error" in scheduled) return scheduled;
+
+  const cancelled = (await ScheduledMessage.findOneAndUpdate(
+    { _id: scheduled._id, status: "pending" },
+    { $set: { status: "cancelled" } },
+    { new: true }
+  )) as IScheduledMessage | null;
+  if (!cancelled) {
+    return { error: "Scheduled message is no longer pending", status: 409 };
+  }
+  return formatScheduledMessage(cancelled);
+}
+
+type DeliveryResult = { messageId: string } | { error: string };
+
+// Records how delivery went and tells the author.
+async function finishDelivery(
+  scheduled: IScheduledMessage,
+  result: DeliveryResult
+): Promise<void> {
+  const updated = (await ScheduledMessage.findByIdAndUpdate(
+    scheduled._id,
+    {
+      $set:
+        "error" in result
+          ? { status: "failed", failureReason: result.error }
+          : { status: "sent", message: result.messageId, failureReason: null },
+    },
+    { new: true }
+  )) as IScheduledMessage | null;
+  if (updated) {
+    emitMessageEvent({
+      channel: getUserChannel(scheduled.sender.toString()),
+      event: "scheduledMessageUpdated",
+      payload: formatScheduledMessage(updated),
+    });
+  }
+}
+
+// Sends one claimed row through the message service, which broadcasts it
+// like any other message.
+async function deliver(scheduled: IScheduledMessage): Promise<void> {
+  let result: DeliveryResult;
+  const sender = (await User.findById(scheduled.sender)) as IUser | null;
+  if (!sender) {
+    result = { error: "Sender not found" };
+  } else if (scheduled.chatType === "room" && !(await Room.exists({ name: scheduled.room }))) {
+    result = { error: "Room not found" };
+  } else {
+    const input: MessageInput = {
+      id: `scheduled_${scheduled._id}`,
+      text: scheduled.text,
+      fileUrl: scheduled.fileUrl,
+      fileType: scheduled.fileType,
+      fileName: scheduled.fileName,
+      replyTo: scheduled.replyTo ? { id: scheduled.replyTo.toString() } : undefined,
+    };
+    const sent =
+      scheduled.chatType === "room"
+        ? await sendRoomMessage(sender, scheduled.room!, input)
+        : await sendPrivateMessage(sender, scheduled.receiver!.toString(), input);
+    result = "error" in sent ? { error: sent.error } : { messageId: sent.message.id };
+  }
+  await finishDelivery(scheduled, result);
+}
+
+// Sends every scheduled message that is due, oldest first, and returns how
+// many were handled. Rows are claimed one at a time so that an edit or
+// cancellation racing the scheduler either wins or fails cleanly.
+export async function deliverDueScheduledMessages(now: Date = new Date()): Promise<number> {
+  const staleBefore = new Date(now.getTime() - STALE_CLAIM_MS);
+  let handled = 0;
+  while (handled < DELIVERY_BATCH_SIZE) {
+    const claimed = (await ScheduledMessage.findOneAndUpdate(
+      {
+        $or: [
+          { status: "pending", sendAt: { $lte: now } },
+          { status: "sending", claimedAt: { $lt: staleBefore } },
+        ],
+      },
+      { $set: { status: "sending", claimedAt: now }, $inc: { attempts: 1 } },
+      { sort: { sendAt: 1 }, new: true }
+    )) as IScheduledMessage | null;
+    if (!claimed) break;
+    handled++;
+    // Reclaimed after a crash once too often.
+    if (claimed.attempts > MAX_DELIVERY_ATTEMPTS) {
+      await finishDelivery(claimed, { error: "Delivery failed" });
+      continue;
+    }
+    try {
+      await deliver(claimed);
+    } catch (error) {
+      // Invalid content will not get better on a retry. Anything else is left
+      // in "sending" and claimed again once the claim goes stale.
+      const validationError = toValidationError(error);
+      if (!validationError) {
+        console.error(`Error delivering scheduled message ${claimed._id}:`, error);
+      }
+      if (validationError || claimed.attempts >= MAX_DELIVERY_ATTEMPTS) {
+        await finishDelivery(claimed, {
+          error: validationError ? validationError.error : "Delivery failed",
+        });
+      }
+    }
+  }
+  return handled;
+}
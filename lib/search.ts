@@ -0,0 +1,235 @@
+import mongoose from "mongoose";
+import Message, { IMessage } from "../models/Message";
+import { FormattedMessage, StoredMessage, formatMessage } from "./message-format";
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 20;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+const SNIPPET_CONTEXT = 60;
+// A $text query cannot read its matches from an index in createdAt order, so
+// MongoDB sorts all of them before returning a page. To keep that sort small,
+// every search is bounded in time: the last DEFAULT_SEARCH_WINDOW_DAYS unless
+// `from` is given, and never more than MAX_SEARCH_WINDOW_DAYS between `from`
+// and `to`. The bounds applied are returned with the results.
+export const DEFAULT_SEARCH_WINDOW_DAYS = 90;
+export const MAX_SEARCH_WINDOW_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FILE_TYPES: IMessage["fileType"][] = ["image", "video", "audio", "document", "other"];
+
+type SearchError = { error: string; status: number };
+
+export interface SearchParams {
+  q: string | null;
+  room?: string | null;
+  senderId?: string | null;
+  from?: string | null;
+  to?: string | null;
+  hasFile?: string | null;
+  fileType?: string | null;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface SearchHighlight {
+  start: number;
+  length: number;
+}
+
+export interface SearchResult {
+  message: FormattedMessage;
+  field: "text" | "fileName";
+  snippet: string;
+  // Offsets of the matched terms within `snippet`.
+  highlights: SearchHighlight[];
+}
+
+// Results are ordered newest first; the cursor is the position of the last
+// result returned.
+interface Cursor {
+  createdAt: Date;
+  id: mongoose.Types.ObjectId;
+}
+
+function encodeCursor(message: StoredMessage): string {
+  return Buffer.from(
+    JSON.stringify({ t: message.createdAt.toISOString(), id: message._id.toString() })
+  ).toString("base64url");
+}
+
+function decodeCursor(cursor: string): Cursor | null {
+  try {
+    const { t, id } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const createdAt = new Date(t);
+    if (Number.isNaN(createdAt.getTime()) || !mongoose.Types.ObjectId.isValid(id)) return null;
+    return { createdAt, id: new mongoose.Types.ObjectId(id) };
+  } catch {
+    return null;
+  }
+}
+
+function parseDate(value: string | null | undefined): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// The words of the query to highlight; negated terms and quotes are dropped.
+function searchTerms(q: string): string[] {
+  return q
+    .split(/\s+/)
+    .filter((term) => term && !term.startsWith("-"))
+    .map((term) => term.replace(/"/g, ""))
+    .filter(Boolean);
+}
+
+// The text index matches on word stems, so a term is highlighted wherever a
+// word starts with it.
+function buildSnippet(
+  value: string,
+  terms: string[]
+): { snippet: string; highlights: SearchHighlight[] } | null {
+  if (terms.length === 0) return null;
+  const pattern = new RegExp(`(^|[^\\w])(${terms.map(escapeRegExp).join("|")})`, "gi");
+  const matches: SearchHighlight[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    matches.push({ start: match.index + match[1].length, length: match[2].length });
+  }
+  if (matches.length === 0) return null;
+
+  const start = Math.max(0, matches[0].start - SNIPPET_CONTEXT);
+  const end = Math.min(value.length, matches[0].start + matches[0].length + SNIPPET_CONTEXT);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < value.length ? "…" : "";
+  return {
+    snippet: `${prefix}${value.slice(start, end)}${suffix}`,
+    highlights: matches
+      .filter((m) => m.start >= start && m.start + m.length <= end)
+      .map((m) => ({ start: m.start - start + prefix.length, length: m.length })),
+  };
+}
+
+function toResult(message: StoredMessage, terms: string[]): SearchResult {
+  const inText = message.text ? buildSnippet(message.text, terms) : null;
+  if (inText) return { message: formatMessage(message), field: "text", ...inText };
+  const inFileName = message.fileName ? buildSnippet(message.fileName, terms) : null;
+  if (inFileName) return { message: formatMessage(message), field: "fileName", ...inFileName };
+  return {
+    message: formatMessage(message),
+    field: message.text ? "text" : "fileName",
+    snippet: (message.text || message.fileName || "").slice(0, SNIPPET_CONTEXT * 2),
+    highlights: [],
+  };
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  nextCursor: string | null;
+  // The time range searched; `to` is null when it runs up to the present.
+  from: string;
+  to: string | null;
+}
+
+// Full-text search over the messages `userId` can see: every room message
+// and the private messages they sent or received. Deleted messages are never
+// returned.
+export async function searchMessages(
+  userId: string,
+  params: SearchParams
+): Promise<SearchPage | SearchError> {
+  const q = params.q?.trim() || "";
+  if (q.length < MIN_QUERY_LENGTH || q.length > MAX_QUERY_LENGTH) {
+    return {
+      error: `Search query must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters`,
+      status: 400,
+    };
+  }
+
+  const user = new mongoose.Types.ObjectId(userId);
+  const conditions: mongoose.FilterQuery<IMessage>[] = [
+    {
+      $or: [
+        { chatType: "room" },
+        { chatType: "private", sender: user },
+        { chatType: "private", receiver: user },
+      ],
+    },
+  ];
+
+  if (params.room) {
+    conditions.push({ chatType: "room", room: params.room });
+  }
+  if (params.senderId) {
+    if (!mongoose.Types.ObjectId.isValid(params.senderId)) {
+      return { error: "Invalid sender ID format", status: 400 };
+    }
+    conditions.push({ sender: new mongoose.Types.ObjectId(params.senderId) });
+  }
+
+  const parsedFrom = parseDate(params.from);
+  const to = parseDate(params.to);
+  if (parsedFrom === null || to === null) {
+    return { error: "from and to must be valid dates", status: 400 };
+  }
+  const from =
+    parsedFrom || new Date((to || new Date()).getTime() - DEFAULT_SEARCH_WINDOW_DAYS * DAY_MS);
+  if ((to || new Date()).getTime() - from.getTime() > MAX_SEARCH_WINDOW_DAYS * DAY_MS) {
+    return {
+      error: `from and to can be at most ${MAX_SEARCH_WINDOW_DAYS} days apart`,
+      status: 400,
+    };
+  }
+  conditions.push({ createdAt: { $gte: from, ...(to ? { $lte: to } : {}) } });
+
+  if (params.hasFile === "true") {
+    conditions.push({ fileUrl: { $exists: true, $nin: [null, ""] } });
+  } else if (params.hasFile === "false") {
+    conditions.push({ $or: [{ fileUrl: { $exists: false } }, { fileUrl: { $in: [null, ""] } }] });
+  } else if (params.hasFile) {
+    return { error: 'hasFile must be "true" or "false"', status: 400 };
+  }
+  if (params.fileType) {
+    if (!FILE_TYPES.includes(params.fileType as IMessage["fileType"])) {
+      return { error: `fileType must be one of ${FILE_TYPES.join(", ")}`, status: 400 };
+    }
+    conditions.push({ fileType: params.fileType });
+  }
+
+  if (params.cursor) {
+    const cursor = decodeCursor(params.cursor);
+    if (!cursor) {
+      return { error: "Invalid cursor", status: 400 };
+    }
+    conditions.push({
+      $or: [
+        { createdAt: { $lt: cursor.createdAt } },
+        { createdAt: cursor.createdAt, _id: { $lt: cursor.id } },
+      ],
+    });
+  }
+
+  const limit = Math.min(Math.max(1, params.limit || DEFAULT_SEARCH_PAGE_SIZE), MAX_SEARCH_PAGE_SIZE);
+  const messages = (await Message.find({
+    $text: { $search: q },
+    deletedAt: null,
+    $and: conditions,
+  })
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limit + 1)
+    .lean()) as unknown as StoredMessage[];
+
+  const page = messages.slice(0, limit);
+  const terms = searchTerms(q);
+  return {
+    results: page.map((message) => toResult(message, terms)),
+    nextCursor: messages.length > limit ? encodeCursor(page[page.length - 1]) : null,
+    from: from.toISOString(),
+    to: to ? to.toISOString() : null,
+  };
+}
@@ -0,0 +1,20 @@
+import { EventEmitter } from "events";
+import { processGlobal } from "./process-global";
+
+export interface SessionRevokedEvent {
+  sessionId: string;
+  userId: string;
+  reason: string;
+}
+
+const sessionEvents = processGlobal("sessionEvents", () => new EventEmitter());
+
+export function emitSessionRevoked(event: SessionRevokedEvent): void {
+  sessionEvents.emit("sessionRevoked", event);
+}
+
+export function onSessionRevoked(
+  listener: (event: SessionRevokedEvent) => void
+): void {
+  sessionEvents.on("sessionRevoked", listener);
+}
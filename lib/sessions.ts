@@ -0,0 +1,177 @@
+import { createHash } from "crypto";
+import { FilterQuery } from "mongoose";
+import { NextRequest } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import Session, { ISession } from "@/models/Session";
+import { IUser } from "@/models/User";
+import { generateToken, verifyToken } from "@/lib/auth";
+import { emitSessionRevoked } from "@/lib/session-events";
+import { getClientIp } from "@/lib/client-ip";
+
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type RevokeReason = NonNullable<ISession["revokedReason"]>;
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function describeDevice(userAgent: string | undefined): string {
+  if (!userAgent) return "Unknown device";
+  const platform =
+    ["iPhone", "iPad", "Android", "Windows", "Mac OS", "Linux"].find((name) =>
+      userAgent.includes(name)
+    ) || "Unknown OS";
+  const browser =
+    ["Edg", "Chrome", "Firefox", "Safari"].find((name) =>
+      userAgent.includes(name)
+    ) || "Unknown client";
+  return `${browser === "Edg" ? "Edge" : browser} on ${platform}`;
+}
+
+export function issueAccessToken(user: IUser, session: ISession): string {
+  return generateToken({
+    id: user._id.toString(),
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    profilePicture: user.profilePicture,
+    role: user.role,
+    sid: session._id.toString(),
+    mfa: session.mfa,
+    typ: "access",
+    jti: uuidv4(),
+  });
+}
+
+function issueRefreshToken(session: ISession): string {
+  return generateToken(
+    {
+      id: session.user.toString(),
+      sid: session._id.toString(),
+      fid: session.familyId,
+      typ: "refresh",
+      jti: uuidv4(),
+    },
+    "7d",
+    true
+  );
+}
+
+export async function createSession(
+  user: IUser,
+  req: NextRequest,
+  deviceLabel?: string,
+  mfa = false
+): Promise<{ session: ISession; refreshToken: string }> {
+  const userAgent = req.headers.get("user-agent") || undefined;
+  const session = new Session({
+    user: user._id,
+    familyId: uuidv4(),
+    deviceLabel: deviceLabel?.trim() || describeDevice(userAgent),
+    userAgent,
+    ip: getClientIp(req),
+    mfa,
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  const refreshToken = issueRefreshToken(session);
+  session.refreshTokenHash = hashToken(refreshToken);
+  await session.save();
+
+  return { session, refreshToken };
+}
+
+export type RotateSessionResult =
+  | { session: ISession; refreshToken: string }
+  | { error: string };
+
+// Exchanges a refresh token for a new one. Presenting a token that has
+// already been rotated means it leaked, so the whole family is revoked.
+export async function rotateSession(
+  refreshToken: string,
+  req: NextRequest
+): Promise<RotateSessionResult> {
+  const decoded = verifyToken(refreshToken, true);
+  if (!decoded?.sid || decoded.typ !== "refresh") {
+    return { error: "Invalid refresh token" };
+  }
+
+  const session = (await Session.findById(decoded.sid)) as ISession | null;
+  if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+    return { error: "Invalid refresh token" };
+  }
+
+  const newRefreshToken = issueRefreshToken(session);
+  const rotated = (await Session.findOneAndUpdate(
+    {
+      _id: session._id,
+      refreshTokenHash: hashToken(refreshToken),
+      revokedAt: null,
+    },
+    {
+      $set: {
+        refreshTokenHash: hashToken(newRefreshToken),
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        userAgent: req.headers.get("user-agent") || session.userAgent,
+        ip: getClientIp(req) || session.ip,
+      },
+    },
+    { new: true }
+  )) as ISession | null;
+
+  if (!rotated) {
+    console.warn(
+      `Refresh token reuse detected for session ${session._id} (family ${session.familyId}). Revoking family.`
+    );
+    await revokeSessionFamily(session.familyId, "reuse");
+    return { error: "Invalid refresh token" };
+  }
+
+  return { session: rotated, refreshToken: newRefreshToken };
+}
+
+async function revokeSessions(
+  filter: FilterQuery<ISession>,
+  reason: RevokeReason
+): Promise<number> {
+  const sessions = (await Session.find({ ...filter, revokedAt: null })
+    .select("_id user")
+    .lean()) as Pick<ISession, "_id" | "user">[];
+  if (sessions.length === 0) return 0;
+
+  await Session.updateMany(
+    { _id: { $in: sessions.map((session) => session._id) } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+
+  for (const session of sessions) {
+    emitSessionRevoked({
+      sessionId: session._id.toString(),
+      userId: session.user.toString(),
+      reason,
+    });
+  }
+  return sessions.length;
+}
+
+export async function revokeSessionFamily(
+  familyId: string,
+  reason: RevokeReason
+): Promise<number> {
+  return revokeSessions({ familyId }, reason);
+}
+
+export async function revokeUserSessions(
+  userId: string,
+  reason: RevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const filter: FilterQuery<ISession> = { user: userId };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+  return revokeSessions(filter, reason);
+}
@@ -0,0 +1,164 @@
+import mongoose from "mongoose";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { MAX_SYNC_EVENTS, syncConversation } from "./sync";
+
+interface EventRow {
+  conversation: string;
+  seq: number;
+  type: string;
+  message: mongoose.Types.ObjectId;
+}
+
+const events: EventRow[] = [];
+const messages: Array<Record<string, unknown>> = [];
+
+// A chainable stand-in for a Mongoose query that resolves to `result`.
+function query<T>(result: () => T) {
+  const chain = {
+    sort: () => chain,
+    select: () => chain,
+    limit: () => chain,
+    lean: async () => result(),
+  };
+  return chain;
+}
+
+vi.mock("../models/ConversationEvent", () => ({
+  default: {
+    findOne: ({ conversation }: { conversation: string }) =>
+      query(
+        () =>
+          events
+            .filter((event) => event.conversation === conversation)
+            .sort((a, b) => b.seq - a.seq)[0] || null
+      ),
+    find: ({ conversation, seq }: { conversation: string; seq: { $gt: number } }) =>
+      query(() =>
+        events
+          .filter((event) => event.conversation === conversation && event.seq > seq.$gt)
+          .sort((a, b) => a.seq - b.seq)
+          .slice(0, MAX_SYNC_EVENTS)
+      ),
+  },
+}));
+
+vi.mock("../models/Message", () => ({
+  default: {
+    find: ({ _id }: { _id: { $in: string[] } }) =>
+      query(() => messages.filter((message) => _id.$in.includes(String(message._id)))),
+  },
+}));
+
+vi.mock("../models/Room", () => ({
+  default: {
+    exists: async ({ name }: { name: string }) => (name === "general" ? { _id: "room" } : null),
+  },
+}));
+
+vi.mock("../models/ConversationSequence", () => ({ default: {} }));
+
+const userId = new mongoose.Types.ObjectId().toHexString();
+
+// Logs one event per seq in "general", each for a message of its own; the
+// message of seq 2 has since been purged.
+function logEvents(seqs: number[]) {
+  for (const seq of seqs) {
+    const _id = new mongoose.Types.ObjectId();
+    events.push({ conversation: "general", seq, type: "created", message: _id });
+    if (seq === 2) continue;
+    messages.push({
+      _id,
+      sender: new mongoose.Types.ObjectId(),
+      firstName: "Ada",
+      lastName: "Lovelace",
+      room: "general",
+      text: `message ${seq}`,
+      chatType: "room",
+      createdAt: new Date(seq * 1000),
+    });
+  }
+}
+
+beforeEach(() => {
+  events.length = 0;
+  messages.length = 0;
+});
+
+describe("syncConversation", () => {
+  it("replays the events after lastSeq in order", async () => {
+    logEvents([1, 2, 3, 4]);
+    const result = await syncConversation(userId, { room: "general", lastSeq: 1 });
+    expect(result).toMatchObject({ conversation: "general", latestSeq: 4, resyncRequired: false });
+    if ("error" in result) throw new Error(result.error);
+    expect(result.events.map((event) => event.seq)).toEqual([2, 3, 4]);
+    expect(result.events[0].message).toBeNull();
+    expect(result.events[1].message?.text).toBe("message 3");
+  });
+
+  it("has nothing to replay for an up-to-date client", async () => {
+    logEvents([1, 2, 3]);
+    const result = await syncConversation(userId, { room: "general", lastSeq: 3 });
+    expect(result).toEqual({
+      conversation: "general",
+      latestSeq: 3,
+      events: [],
+      resyncRequired: false,
+    });
+  });
+
+  it("has nothing to replay in a conversation without events", async () => {
+    const result = await syncConversation(userId, { room: "general", lastSeq: 0 });
+    expect(result).toMatchObject({ latestSeq: 0, events: [], resyncRequired: false });
+  });
+
+  it("requires a resync once the event after lastSeq has expired", async () => {
+    logEvents([3, 4, 5]);
+    const result = await syncConversation(userId, { room: "general", lastSeq: 1 });
+    expect(result).toMatchObject({ latestSeq: 5, events: [], resyncRequired: true });
+  });
+
+  it("requires a resync when a number is missing further along", async () => {
+    logEvents([1, 2, 3, 5, 6]);
+    const result = await syncConversation(userId, { room: "general", lastSeq: 1 });
+    expect(result).toMatchObject({ latestSeq: 6, events: [], resyncRequired: true });
+  });
+
+  it("requires a resync for a client ahead of the log", async () => {
+    logEvents([1, 2]);
+    const result = await syncConversation(userId, { room: "general", lastSeq: 5 });
+    expect(result).toMatchObject({ latestSeq: 2, events: [], resyncRequired: true });
+  });
+
+  it("requires a resync for a client too far behind to replay", async () => {
+    logEvents(Array.from({ length: MAX_SYNC_EVENTS + 2 }, (_, i) => i + 1));
+    const behind = await syncConversation(userId, { room: "general", lastSeq: 1 });
+    expect(behind).toMatchObject({ latestSeq: MAX_SYNC_EVENTS + 2, resyncRequired: true });
+
+    const justInReach = await syncConversation(userId, { room: "general", lastSeq: 2 });
+    expect(justInReach).toMatchObject({ resyncRequired: false });
+    if ("error" in justInReach) throw new Error(justInReach.error);
+    expect(justInReach.events).toHaveLength(MAX_SYNC_EVENTS);
+  });
+
+  it("rejects an invalid lastSeq", async () => {
+    for (const lastSeq of [-1, 1.5, NaN]) {
+      const result = await syncConversation(userId, { room: "general", lastSeq });
+      expect(result).toEqual({
+        conversation: "general",
+        error: "lastSeq must be a non-negative integer",
+      });
+    }
+  });
+
+  it("rejects unknown rooms and ambiguous requests", async () => {
+    expect(await syncConversation(userId, { room: "nowhere", lastSeq: 0 })).toEqual({
+      error: "Room not found",
+    });
+    expect(
+      await syncConversation(userId, { room: "general", receiverId: userId, lastSeq: 0 })
+    ).toEqual({ error: "Exactly one of room or receiverId is required" });
+    expect(await syncConversation(userId, { receiverId: userId, lastSeq: 0 })).toEqual({
+      error: "Invalid receiver ID",
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import mongoose from "mongoose";
+import ConversationEvent, {
+  ConversationEventType,
+  IConversationEvent,
+} from "../models/ConversationEvent";
+import ConversationSequence from "../models/ConversationSequence";
+import Message, { IMessage } from "../models/Message";
+import Room from "../models/Room";
+import { emitMessageEvent, getPrivateRoomId } from "./message-events";
+import { FormattedMessage, StoredMessage, formatMessage } from "./message-format";
+
+// Clients further behind than this are told to refetch the conversation.
+export const MAX_SYNC_EVENTS = 500;
+export const MAX_SYNC_CONVERSATIONS = 50;
+
+export interface SyncRequest {
+  room?: string;
+  receiverId?: string;
+  lastSeq: number;
+}
+
+export interface SyncEvent {
+  seq: number;
+  type: ConversationEventType;
+  messageId: string;
+  // The message as it is now; null once it has been purged.
+  message: FormattedMessage | null;
+}
+
+export type SyncResult =
+  | {
+      conversation: string;
+      latestSeq: number;
+      events: SyncEvent[];
+      // Set when the gap cannot be replayed and the client should refetch
+      // the conversation's history instead.
+      resyncRequired: boolean;
+    }
+  | { conversation?: string; error: string };
+
+// Hands out the next sequence number of `conversation`, a room name or a
+// private_<a>_<b> id.
+async function nextSequence(conversation: string): Promise<number> {
+  const counter = await ConversationSequence.findByIdAndUpdate(
+    conversation,
+    { $inc: { seq: 1 } },
+    { upsert: true, new: true }
+  );
+  return counter!.seq;
+}
+
+// Appends a change to the conversation's event log and returns its sequence
+// number. Call it only once the change is stored: a number handed out for a
+// change that then fails leaves a gap, and clients that hit a gap must
+// refetch the whole conversation.
+export async function recordConversationEvent(
+  conversation: string,
+  type: ConversationEventType,
+  messageId: mongoose.Types.ObjectId | string
+): Promise<number> {
+  const seq = await nextSequence(conversation);
+  await ConversationEvent.create({ conversation, seq, type, message: messageId });
+  return seq;
+}
+
+// Records the creation of a message that has just been saved and stores its
+// sequence number on it.
+export async function recordMessageCreated(
+  conversation: string,
+  message: IMessage
+): Promise<number> {
+  const seq = await recordConversationEvent(conversation, "created", message._id);
+  await Message.updateOne({ _id: message._id }, { $set: { seq } });
+  message.seq = seq;
+  return seq;
+}
+
+// Records the change and broadcasts `event` with its sequence number added to
+// the payload.
+export async function emitSequencedEvent(
+  event: { channel: string; event: string; payload: Record<string, unknown> },
+  type: ConversationEventType,
+  messageId: mongoose.Types.ObjectId | string
+): Promise<number> {
+  const seq = await recordConversationEvent(event.channel, type, messageId);
+  emitMessageEvent({ ...event, payload: { ...event.payload, seq } });
+  return seq;
+}
+
+async function resolveSyncConversation(
+  userId: string,
+  { room, receiverId }: SyncRequest
+): Promise<string | { error: string }> {
+  if (!room === !receiverId) {
+    return { error: "Exactly one of room or receiverId is required" };
+  }
+  if (room) {
+    if (!(await Room.exists({ name: room }))) {
+      return { error: "Room not found" };
+    }
+    return room;
+  }
+  if (!mongoose.Types.ObjectId.isValid(receiverId!) || receiverId === userId) {
+    return { error: "Invalid receiver ID" };
+  }
+  return getPrivateRoomId(userId, receiverId!);
+}
+
+// Replays, in order, what changed in one conversation after `lastSeq`.
+export async function syncConversation(userId: string, request: SyncRequest): Promise<SyncResult> {
+  const conversation = await resolveSyncConversation(userId, request);
+  if (typeof conversation !== "string") return conversation;
+
+  const { lastSeq } = request;
+  if (!Number.isInteger(lastSeq) || lastSeq < 0) {
+    return { conversation, error: "lastSeq must be a non-negative integer" };
+  }
+
+  // Taken from the log rather than the counter, which can run ahead of it
+  // when recording an event fails.
+  const latest = await ConversationEvent.findOne({ conversation })
+    .sort({ seq: -1 })
+    .select("seq")
+    .lean();
+  const latestSeq = latest?.seq || 0;
+  const resync = { conversation, latestSeq, events: [], resyncRequired: true };
+  if (lastSeq === latestSeq) {
+    return { ...resync, resyncRequired: false };
+  }
+  if (lastSeq > latestSeq || latestSeq - lastSeq > MAX_SYNC_EVENTS) {
+    return resync;
+  }
+
+  const events = (await ConversationEvent.find({ conversation, seq: { $gt: lastSeq } })
+    .sort({ seq: 1 })
+    .limit(MAX_SYNC_EVENTS)
+    .lean()) as unknown as IConversationEvent[];
+  // Old events expire, and a number handed out for a change that then failed
+  // is never recorded. Either way a missing number cannot be replayed.
+  if (events.length === 0 || events.some((event, i) => event.seq !== lastSeq + 1 + i)) {
+    return resync;
+  }
+
+  const messages = (await Message.find({
+    _id: { $in: Array.from(new Set(events.map((event) => event.message.toString()))) },
+  }).lean()) as unknown as StoredMessage[];
+  const messagesById = new Map(messages.map((message) => [message._id.toString(), message]));
+
+  return {
+    conversation,
+    latestSeq,
+    resyncRequired: false,
+    events: events.map((event) => {
+      const message = messagesById.get(event.message.toString());
+      return {
+        seq: event.seq,
+        type: event.type,
+        messageId: event.message.toString(),
+        message: message ? formatMessage(message) : null,
+      };
+    }),
+  };
+}
+
+export async function syncConversations(
+  userId: string,
+  requests: SyncRequest[]
+): Promise<SyncResult[]> {
+  const results: SyncResult[] = [];
+  for (const request of requests.slice(0, MAX_SYNC_CONVERSATIONS)) {
+    results.push(await syncConversation(userId, request));
+  }
+  return results;
+}
@@ -0,0 +1,149 @@
+import mongoose from "mongoose";
+import Message, { IMessage } from "../models/Message";
+import { IUser } from "../models/User";
+import { emitMessageEvent, getMessageChannel, getUserChannel } from "./message-events";
+import { FormattedMessage, StoredMessage, formatMessage } from "./message-format";
+import { MessagePage, PageParams, findMessagePage, sortFor } from "./message-pagination";
+import { MessageInput, storeThreadReply } from "./message-service";
+import { emitSequencedEvent } from "./sync";
+
+type ThreadError = { error: string; status: number };
+
+export type ThreadReplyInput = Omit<MessageInput, "replyTo">;
+
+export interface ThreadPage extends Omit<MessagePage<FormattedMessage>, "messages"> {
+  root: FormattedMessage;
+  // Newest first.
+  replies: FormattedMessage[];
+  total: number;
+}
+
+export interface ThreadSummary {
+  rootId: string;
+  threadReplyCount: number;
+  threadLastReplyAt?: string;
+}
+
+function summarizeThread(root: IMessage): ThreadSummary {
+  return {
+    rootId: root._id.toString(),
+    threadReplyCount: root.threadReplyCount || 0,
+    threadLastReplyAt: root.threadLastReplyAt?.toISOString(),
+  };
+}
+
+// Resolves the root of the thread `messageId` belongs to; replying to a reply
+// continues the same thread rather than nesting a new one.
+async function findThreadRoot(
+  messageId: string,
+  userId: string
+): Promise<IMessage | ThreadError> {
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    return { error: "Invalid message ID format", status: 400 };
+  }
+  let message = (await Message.findById(messageId)) as IMessage | null;
+  if (message?.threadRoot) {
+    message = (await Message.findById(message.threadRoot)) as IMessage | null;
+  }
+  if (!message) {
+    return { error: "Message not found", status: 404 };
+  }
+  if (
+    message.chatType === "private" &&
+    message.sender.toString() !== userId &&
+    message.receiver?.toString() !== userId
+  ) {
+    return { error: "Not authorized to view this thread", status: 403 };
+  }
+  return message;
+}
+
+// Adds a reply to the thread under `rootId` and broadcasts it as threadReply,
+// notifying the thread's other participants. A retried send with a client id
+// that was already used returns the stored reply without broadcasting again.
+export async function createThreadReply(
+  sender: IUser,
+  rootId: string,
+  input: ThreadReplyInput
+): Promise<
+  { message: FormattedMessage; thread: ThreadSummary; duplicate: boolean } | ThreadError
+> {
+  const senderId = sender._id.toString();
+  const root = await findThreadRoot(rootId, senderId);
+  if ("error" in root) return root;
+  if (root.deletedAt) {
+    return { error: "Cannot reply to a deleted message", status: 400 };
+  }
+
+  const stored = await storeThreadReply(sender, root, input);
+  if ("error" in stored) return stored;
+  const reply = stored.message;
+  if (stored.duplicate) {
+    return { message: formatMessage(reply), thread: summarizeThread(root), duplicate: true };
+  }
+
+  const updatedRoot = ((await Message.findByIdAndUpdate(
+    root._id,
+    {
+      $inc: { threadReplyCount: 1 },
+      $max: { threadLastReplyAt: reply.createdAt },
+      $addToSet: { threadParticipants: { $each: [root.sender, sender._id] } },
+    },
+    { new: true }
+  )) as IMessage | null) || root;
+
+  const message = formatMessage(reply);
+  const thread = summarizeThread(updatedRoot);
+
+  // The reply's creation is sequenced by storeThreadReply; the change to the
+  // root's summary gets its own event so that a resync picks it up too.
+  const channel = getMessageChannel(updatedRoot);
+  if (channel) {
+    await emitSequencedEvent(
+      { channel, event: "threadReply", payload: { ...thread, message } },
+      "thread",
+      updatedRoot._id
+    );
+  }
+  for (const participantId of updatedRoot.threadParticipants) {
+    if (participantId.toString() === senderId) continue;
+    emitMessageEvent({
+      channel: getUserChannel(participantId.toString()),
+      event: "threadNotification",
+      payload: { ...thread, room: updatedRoot.room, chatType: updatedRoot.chatType, message },
+    });
+  }
+
+  return { message, thread, duplicate: false };
+}
+
+// Pages through the replies of a thread, newest first, with the same
+// before/after/around cursors as conversation history.
+export async function getThread(
+  rootId: string,
+  userId: string,
+  params: PageParams
+): Promise<ThreadPage | ThreadError> {
+  const root = await findThreadRoot(rootId, userId);
+  if ("error" in root) return root;
+
+  const page = await findMessagePage(
+    { threadRoot: root._id },
+    params,
+    (pageFilter, direction, limit) =>
+      Message.find(pageFilter)
+        .sort(sortFor(direction))
+        .limit(limit)
+        .lean()
+        .exec() as unknown as Promise<StoredMessage[]>
+  );
+  if ("error" in page) return page;
+
+  const { messages, ...cursors } = page;
+  return {
+    root: formatMessage(root),
+    replies: messages.map(formatMessage),
+    total: root.threadReplyCount || 0,
+    ...cursors,
+  };
+}
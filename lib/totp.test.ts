@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { base32Decode, base32Encode, generateTotp, getTimeStep, verifyTotp } from "./totp";
+
+// The SHA-1 seed from RFC 6238 appendix B, "12345678901234567890".
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890", "ascii"));
+
+// RFC 6238 appendix B gives 8-digit codes; a 6-digit code is the same value
+// modulo 10^6, i.e. its last six digits.
+const RFC_VECTORS: Array<[number, string]> = [
+  [59, "94287082"],
+  [1111111109, "07081804"],
+  [1111111111, "14050471"],
+  [1234567890, "89005924"],
+  [2000000000, "69279037"],
+  [20000000000, "65353130"],
+];
+
+describe("base32", () => {
+  it("encodes the RFC 6238 seed", () => {
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+  });
+
+  it("decodes what it encodes, ignoring case, spaces and padding", () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    const encoded = base32Encode(bytes);
+    expect(base32Decode(encoded)).toEqual(bytes);
+    expect(base32Decode(`${encoded.toLowerCase().replace(/(.{4})/g, "$1 ")}===`)).toEqual(bytes);
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("ABC1")).toThrow('Invalid base32 character "1"');
+  });
+});
+
+describe("generateTotp", () => {
+  it.each(RFC_VECTORS)("matches the RFC 6238 vector at %i seconds", (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, getTimeStep(seconds * 1000))).toBe(code.slice(-6));
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = 1111111111 * 1000;
+  const step = getTimeStep(now);
+
+  it("returns the matching time step, allowing one step of drift either way", () => {
+    for (const drift of [-1, 0, 1]) {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + drift), now)).toBe(
+        step + drift
+      );
+    }
+  });
+
+  it("rejects codes from further away", () => {
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), now)).toBeNull();
+  });
+
+  it("accepts spaces inside the code", () => {
+    const code = generateTotp(RFC_SECRET, step);
+    expect(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, now)).toBe(step);
+  });
+
+  it("rejects anything but six digits", () => {
+    expect(verifyTotp(RFC_SECRET, "", now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "12345", now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "1234567", now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", now)).toBeNull();
+  });
+});
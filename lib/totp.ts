@@ -0,0 +1,104 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30s steps),
+// the variant every common authenticator app supports.
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, "").replace(/\s/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function getTimeStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+export function generateTotp(secret: string, timeStep = getTimeStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(timeStep / 2 ** 32), 0);
+  counter.writeUInt32BE(timeStep % 2 ** 32, 4);
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+}
+
+// Returns the time step the code matched (allowing one step of clock drift
+// either way), or null if it matches none.
+export function verifyTotp(
+  secret: string,
+  code: string,
+  now = Date.now()
+): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const currentStep = getTimeStep(now);
+  for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+    const expected = Buffer.from(generateTotp(secret, step));
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function buildOtpauthUri(
+  secret: string,
+  accountName: string,
+  issuer: string
+): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: DIGITS.toString(),
+    period: STEP_SECONDS.toString(),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
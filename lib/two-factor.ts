@@ -0,0 +1,60 @@
+import { randomBytes } from "crypto";
+import User, { IUser } from "@/models/User";
+import { verifyTotp } from "@/lib/totp";
+import { hashToken } from "@/lib/sessions";
+
+export const TWO_FACTOR_ISSUER = "Whispr";
+export const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+
+function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase();
+}
+
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return {
+    codes,
+    hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code))),
+  };
+}
+
+// Checks a TOTP code or a recovery code for a user with 2FA enabled. A TOTP
+// code is accepted at most once and a recovery code is removed once used.
+export async function verifySecondFactor(
+  userId: string,
+  code: string
+): Promise<"totp" | "recovery" | null> {
+  const user = (await User.findById(userId).select(
+    "+twoFactorSecret +twoFactorLastUsedStep"
+  )) as IUser | null;
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret || !code) {
+    return null;
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step !== null) {
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { twoFactorLastUsedStep: { $lt: step } },
+          { twoFactorLastUsedStep: { $exists: false } },
+        ],
+      },
+      { $set: { twoFactorLastUsedStep: step } }
+    );
+    return result.modifiedCount === 1 ? "totp" : null;
+  }
+
+  const codeHash = hashToken(normalizeRecoveryCode(code));
+  const result = await User.updateOne(
+    { _id: user._id, twoFactorRecoveryCodes: codeHash },
+    { $pull: { twoFactorRecoveryCodes: codeHash } }
+  );
+  return result.modifiedCount === 1 ? "recovery" : null;
+}
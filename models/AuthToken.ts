@@ -0,0 +1,62 @@
+// models/AuthToken.ts
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export type AuthTokenPurpose =
+  | "password_reset"
+  | "email_verification"
+  | "two_factor_challenge";
+
+export interface IAuthToken extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  purpose: AuthTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  attempts: number;
+  createdAt: Date;
+}
+
+const AuthTokenSchema: Schema<IAuthToken> = new Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    purpose: {
+      type: String,
+      enum: ["password_reset", "email_verification", "two_factor_challenge"],
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AuthTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AuthToken: Model<IAuthToken> =
+  mongoose.models.AuthToken ||
+  mongoose.model<IAuthToken>("AuthToken", AuthTokenSchema);
+
+export default AuthToken;
@@ -0,0 +1,75 @@
+// models/ConversationEvent.ts
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export type ConversationEventType =
+  | "created"
+  | "edited"
+  | "deleted"
+  | "restored"
+  | "reactions"
+  | "pinned"
+  | "unpinned"
+  // A reply was added to the thread under the message.
+  | "thread";
+
+// One change to a message in a conversation, numbered so that reconnecting
+// clients can ask for everything after the last number they saw.
+export interface IConversationEvent extends Document {
+  _id: mongoose.Types.ObjectId;
+  // The room name, or the private_<a>_<b> id of a private conversation.
+  conversation: string;
+  seq: number;
+  type: ConversationEventType;
+  message: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+// Clients offline for longer than this are told to refetch instead.
+export const CONVERSATION_EVENT_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+const ConversationEventSchema: Schema<IConversationEvent> = new Schema(
+  {
+    conversation: {
+      type: String,
+      required: true,
+    },
+    seq: {
+      type: Number,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: [
+        "created",
+        "edited",
+        "deleted",
+        "restored",
+        "reactions",
+        "pinned",
+        "unpinned",
+        "thread",
+      ],
+      required: true,
+    },
+    message: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Message",
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+ConversationEventSchema.index({ conversation: 1, seq: 1 }, { unique: true });
+ConversationEventSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: CONVERSATION_EVENT_RETENTION_SECONDS }
+);
+
+const ConversationEvent: Model<IConversationEvent> =
+  mongoose.models.ConversationEvent ||
+  mongoose.model<IConversationEvent>("ConversationEvent", ConversationEventSchema);
+
+export default ConversationEvent;
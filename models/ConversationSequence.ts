@@ -0,0 +1,26 @@
+// models/ConversationSequence.ts
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+// The last sequence number handed out in a conversation.
+export interface IConversationSequence extends Document {
+  // The room name, or the private_<a>_<b> id of a private conversation.
+  _id: string;
+  seq: number;
+}
+
+const ConversationSequenceSchema: Schema<IConversationSequence> = new Schema({
+  _id: {
+    type: String,
+    required: true,
+  },
+  seq: {
+    type: Number,
+    default: 0,
+  },
+});
+
+const ConversationSequence: Model<IConversationSequence> =
+  mongoose.models.ConversationSequence ||
+  mongoose.model<IConversationSequence>("ConversationSequence", ConversationSequenceSchema);
+
+export default ConversationSequence;
@@ -0,0 +1,68 @@
+// models/Mention.ts
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export interface IMention extends Document {
+  _id: mongoose.Types.ObjectId;
+  // The mentioned user.
+  user: mongoose.Types.ObjectId;
+  message: mongoose.Types.ObjectId;
+  sender: mongoose.Types.ObjectId;
+  room?: string;
+  // "user" for an explicit @name, otherwise the @here/@room broadcast that
+  // reached the user.
+  kind: "user" | "here" | "room";
+  read: boolean;
+  readAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MentionSchema: Schema<IMention> = new Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    message: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Message",
+      required: true,
+    },
+    sender: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    room: {
+      type: String,
+      trim: true,
+    },
+    kind: {
+      type: String,
+      enum: ["user", "here", "room"],
+      required: true,
+      default: "user",
+    },
+    read: {
+      type: Boolean,
+      default: false,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+MentionSchema.index({ user: 1, createdAt: -1 });
+MentionSchema.index({ user: 1, read: 1 });
+MentionSchema.index({ user: 1, message: 1 }, { unique: true });
+
+const Mention: Model<IMention> =
+  mongoose.models.Mention || mongoose.model<IMention>("Mention", MentionSchema);
+
+export default Mention;
@@ -12,7 +12,16 @@ export interface IMessage extends Document {
   receiverLastName?: string;
   text?: string;
   chatType: "room" | "private";
+  // The id the sender's client generated for the send; retries carrying the
+  // same id return this message instead of creating another.
+  clientId?: string | null;
+  // Position in the conversation's event log (see lib/sync) when created.
+  seq?: number | null;
   isEdited: boolean;
+  editedAt?: Date | null;
+  // Earlier versions of `text`, oldest first, each with the time it was
+  // replaced. Not selected unless asked for with "+editHistory".
+  editHistory: { text?: string; editedAt: Date }[];
   fileUrl?: string;
   fileType?: "image" | "video" | "audio" | "document" | "other";
   fileName?: string;
@@ -27,6 +36,28 @@ export interface IMessage extends Document {
   };
   isProfilePictureUpload?: boolean;
   read: boolean;
+  // Private messages only: when the receiver's client acknowledged the
+  // message, and when the receiver read it.
+  deliveredAt?: Date | null;
+  readAt?: Date | null;
+  // Set on soft-deleted messages, which stay in history as tombstones until
+  // purged.
+  deletedAt?: Date | null;
+  deletedBy?: mongoose.Types.ObjectId | null;
+  deletionReason?: string | null;
+  // Emoji -> ids of the users who reacted with it.
+  reactions: Map<string, mongoose.Types.ObjectId[]>;
+  // Set on thread replies; points at the message that started the thread.
+  threadRoot?: mongoose.Types.ObjectId | null;
+  // The remaining thread fields are only maintained on thread roots.
+  threadReplyCount: number;
+  threadLastReplyAt?: Date | null;
+  threadParticipants: mongoose.Types.ObjectId[];
+  // Set while the message is pinned in its room or private conversation.
+  pinnedAt?: Date | null;
+  pinnedBy?: mongoose.Types.ObjectId | null;
+  // Users resolved from @mentions in `text`, including @here/@room.
+  mentions: mongoose.Types.ObjectId[];
 }
 
 const MessageSchema: Schema<IMessage> = new Schema(
@@ -99,10 +130,34 @@ const MessageSchema: Schema<IMessage> = new Schema(
       required: true,
       default: "room",
     },
+    clientId: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    seq: {
+      type: Number,
+      default: null,
+    },
     isEdited: {
       type: Boolean,
       default: false,
     },
+    editedAt: {
+      type: Date,
+      default: null,
+    },
+    editHistory: {
+      type: [
+        {
+          _id: false,
+          text: { type: String },
+          editedAt: { type: Date, required: true },
+        },
+      ],
+      default: [],
+      select: false,
+    },
     fileUrl: {
       type: String,
       trim: true,
@@ -155,8 +210,10 @@ const MessageSchema: Schema<IMessage> = new Schema(
       },
       required: false,
       validate: {
+        // Only checked when the reply is created or re-pointed, so that
+        // purging the parent later does not make the reply unsaveable.
         validator: async function (this: IMessage, value: any) {
-          if (!value) return true;
+          if (!value || !this.isModified("replyTo")) return true;
           const message = await mongoose.model("Message").findById(value.id);
           return !!message;
         },
@@ -173,6 +230,64 @@ const MessageSchema: Schema<IMessage> = new Schema(
       default: false,
       required: true,
     },
+    deliveredAt: {
+      type: Date,
+      default: null,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    deletionReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Deletion reason cannot exceed 500 characters"],
+      default: null,
+    },
+    reactions: {
+      type: Map,
+      of: [{ type: mongoose.Schema.Types.ObjectId, ref: "User" }],
+      default: {},
+    },
+    threadRoot: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Message",
+      default: null,
+    },
+    threadReplyCount: {
+      type: Number,
+      default: 0,
+    },
+    threadLastReplyAt: {
+      type: Date,
+      default: null,
+    },
+    threadParticipants: {
+      type: [{ type: mongoose.Schema.Types.ObjectId, ref: "User" }],
+      default: [],
+    },
+    pinnedAt: {
+      type: Date,
+      default: null,
+    },
+    pinnedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    mentions: {
+      type: [{ type: mongoose.Schema.Types.ObjectId, ref: "User" }],
+      default: [],
+    },
   },
   {
     timestamps: true,
@@ -183,12 +298,32 @@ const MessageSchema: Schema<IMessage> = new Schema(
         ret.sender = ret.sender.toString();
         if (ret.receiver) ret.receiver = ret.receiver.toString();
         if (ret.replyTo?.id) ret.replyTo.id = ret.replyTo.id.toString();
+        if (ret.threadRoot) ret.threadRoot = ret.threadRoot.toString();
+        if (ret.pinnedBy) ret.pinnedBy = ret.pinnedBy.toString();
+        if (ret.deletedBy) ret.deletedBy = ret.deletedBy.toString();
         return ret;
       },
     },
   }
 );
 
+// History pages are read newest first per room and per private pair, with _id
+// breaking ties between messages created in the same millisecond (see
+// sortFor in lib/message-pagination).
+MessageSchema.index({ room: 1, createdAt: -1, _id: -1 });
+MessageSchema.index({ sender: 1, receiver: 1, createdAt: -1, _id: -1 });
+MessageSchema.index({ threadRoot: 1, createdAt: 1, _id: 1 });
+MessageSchema.index(
+  { sender: 1, clientId: 1 },
+  { unique: true, partialFilterExpression: { clientId: { $type: "string" } } }
+);
+MessageSchema.index({ chatType: 1, room: 1, pinnedAt: -1 });
+MessageSchema.index(
+  { text: "text", fileName: "text" },
+  { name: "message_text_search", weights: { text: 3, fileName: 1 } }
+);
+MessageSchema.index({ deletedAt: 1 }, { partialFilterExpression: { deletedAt: { $type: "date" } } });
+
 MessageSchema.pre("validate", function (this: IMessage, next) {
   if (this.isProfilePictureUpload) {
     if (!this.fileUrl) {
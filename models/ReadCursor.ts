@@ -0,0 +1,66 @@
+// models/ReadCursor.ts
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+// How far a user has read in one room or private conversation.
+export interface IReadCursor extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  // The room name, or the private_<a>_<b> id of a private conversation.
+  conversation: string;
+  chatType: "room" | "private";
+  room?: string;
+  // The other participant of a private conversation.
+  partner?: mongoose.Types.ObjectId;
+  lastReadMessage: mongoose.Types.ObjectId;
+  // createdAt of lastReadMessage; messages after it are unread.
+  lastReadAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReadCursorSchema: Schema<IReadCursor> = new Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    conversation: {
+      type: String,
+      required: true,
+    },
+    chatType: {
+      type: String,
+      enum: ["room", "private"],
+      required: true,
+    },
+    room: {
+      type: String,
+      trim: true,
+    },
+    partner: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+    },
+    lastReadMessage: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Message",
+      required: true,
+    },
+    lastReadAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ReadCursorSchema.index({ user: 1, conversation: 1 }, { unique: true });
+
+const ReadCursor: Model<IReadCursor> =
+  mongoose.models.ReadCursor ||
+  mongoose.model<IReadCursor>("ReadCursor", ReadCursorSchema);
+
+export default ReadCursor;
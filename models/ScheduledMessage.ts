@@ -0,0 +1,115 @@
+// models/ScheduledMessage.ts
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export type ScheduledMessageStatus = "pending" | "sending" | "sent" | "cancelled" | "failed";
+
+// A message waiting to be posted to a room or private conversation at
+// `sendAt`. The scheduler in server.ts picks up due rows, including those
+// left over from before a restart.
+export interface IScheduledMessage extends Document {
+  _id: mongoose.Types.ObjectId;
+  sender: mongoose.Types.ObjectId;
+  chatType: "room" | "private";
+  room?: string;
+  receiver?: mongoose.Types.ObjectId;
+  text?: string;
+  fileUrl?: string;
+  fileType?: "image" | "video" | "audio" | "document" | "other";
+  fileName?: string;
+  replyTo?: mongoose.Types.ObjectId | null;
+  sendAt: Date;
+  status: ScheduledMessageStatus;
+  // When the scheduler took the row for delivery; rows stuck in "sending"
+  // after a crash are retried once this is old enough.
+  claimedAt?: Date | null;
+  // How many times the scheduler has claimed the row.
+  attempts: number;
+  // The delivered message, once sent.
+  message?: mongoose.Types.ObjectId | null;
+  failureReason?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ScheduledMessageSchema: Schema<IScheduledMessage> = new Schema(
+  {
+    sender: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    chatType: {
+      type: String,
+      enum: ["room", "private"],
+      required: true,
+    },
+    room: {
+      type: String,
+      trim: true,
+      required: function (this: IScheduledMessage) {
+        return this.chatType === "room";
+      },
+    },
+    receiver: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: function (this: IScheduledMessage) {
+        return this.chatType === "private";
+      },
+    },
+    text: {
+      type: String,
+      trim: true,
+    },
+    fileUrl: String,
+    fileType: {
+      type: String,
+      enum: ["image", "video", "audio", "document", "other"],
+    },
+    fileName: String,
+    replyTo: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Message",
+      default: null,
+    },
+    sendAt: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "sending", "sent", "cancelled", "failed"],
+      required: true,
+      default: "pending",
+    },
+    claimedAt: {
+      type: Date,
+      default: null,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    message: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Message",
+      default: null,
+    },
+    failureReason: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ScheduledMessageSchema.index({ status: 1, sendAt: 1 });
+ScheduledMessageSchema.index({ sender: 1, status: 1, sendAt: 1 });
+
+const ScheduledMessage: Model<IScheduledMessage> =
+  mongoose.models.ScheduledMessage ||
+  mongoose.model<IScheduledMessage>("ScheduledMessage", ScheduledMessageSchema);
+
+export default ScheduledMessage;
@@ -0,0 +1,87 @@
+// models/Session.ts
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export interface ISession extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  familyId: string;
+  refreshTokenHash?: string;
+  deviceLabel: string;
+  userAgent?: string;
+  ip?: string;
+  mfa: boolean;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason?: "logout" | "revoked" | "reuse" | "password_reset";
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema: Schema<ISession> = new Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    familyId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    deviceLabel: {
+      type: String,
+      trim: true,
+      maxlength: [100, "Device label cannot exceed 100 characters"],
+      default: "Unknown device",
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+    },
+    ip: {
+      type: String,
+      trim: true,
+    },
+    // Whether the login that started this session passed a second factor.
+    mfa: {
+      type: Boolean,
+      default: false,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+      enum: ["logout", "revoked", "reuse", "password_reset"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Expired sessions are kept until their refresh token could no longer verify
+// anyway, then removed by MongoDB.
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session: Model<ISession> =
+  mongoose.models.Session || mongoose.model<ISession>("Session", SessionSchema);
+
+export default Session;
@@ -7,12 +7,22 @@ export interface IUser extends Document {
   firstName: string;
   lastName: string;
   email: string;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
   password?: string;
   profilePicture?: string;
   role: "user" | "admin";
   banned: boolean;
-  refreshToken?: string;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number;
   isOnline?: boolean;
+  // Lowercased "first last" and "firstlast", which @mentions are matched
+  // against. Kept in sync with the name on save.
+  mentionName?: string;
+  mentionHandle?: string;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
@@ -48,6 +58,13 @@ const UserSchema: Schema<IUser> = new Schema(
       lowercase: true,
       match: [/.+\@.+\..+/, "Please fill a valid email address"],
     },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    emailVerifiedAt: {
+      type: Date,
+    },
     password: {
       type: String,
       required: [true, "Password is required"],
@@ -68,20 +85,53 @@ const UserSchema: Schema<IUser> = new Schema(
       type: Boolean,
       default: false,
     },
-    refreshToken: {
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
       type: String,
       select: false,
     },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+      default: undefined,
+    },
+    twoFactorLastUsedStep: {
+      type: Number,
+      select: false,
+    },
     isOnline: {
       type: Boolean,
       default: false,
     },
+    mentionName: {
+      type: String,
+      index: true,
+    },
+    mentionHandle: {
+      type: String,
+      index: true,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+UserSchema.pre<IUser>("validate", function (next) {
+  if (this.firstName && this.lastName) {
+    this.mentionName = `${this.firstName} ${this.lastName}`.toLowerCase();
+    this.mentionHandle = `${this.firstName}${this.lastName}`.toLowerCase();
+  }
+  next();
+});
+
 UserSchema.pre<IUser>("save", async function (next) {
   if (!this.isModified("password") || typeof this.password === "undefined") {
     return next();
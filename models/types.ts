@@ -1,32 +1,86 @@
+export type MessageFileType = "image" | "video" | "audio" | "document" | "other";
+
+export type DeliveryStatus = "sent" | "delivered" | "read";
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+// A message as the server sends it, over REST and Socket.IO alike.
 export interface Message {
   id: string;
-  _id?: string;
+  // Same as id here. receiveMessage and receivePrivateMessage put the client
+  // id in `id` and the server id only in `_id` (see lib/message-format).
+  _id: string;
+  // The id the sender's client generated for the send, if any.
+  clientId?: string;
+  // Position in the conversation's event log, for resyncing after a reconnect.
+  seq?: number;
   senderId: string;
   sender: string;
   senderFirstName?: string;
   senderLastName?: string;
-  senderProfilePicture?: string;
+  senderProfilePicture: string;
   text?: string;
   timestamp: string;
   room?: string;
   chatType: "room" | "private";
   receiverId?: string;
   receiver?: string;
+  receiverUsername?: string;
   receiverFirstName?: string;
   receiverLastName?: string;
-  isEdited?: boolean;
+  isEdited: boolean;
+  editedAt?: string;
   fileUrl?: string;
-  fileType?: "image" | "video" | "audio" | "document" | "other";
+  fileType?: MessageFileType;
   fileName?: string;
   replyTo?: {
     id: string;
     sender: string;
     text?: string;
     fileUrl?: string;
-    fileType?: "image" | "video" | "audio" | "document" | "other";
+    fileType?: MessageFileType;
     fileName?: string;
   };
   isProfilePictureUpload?: boolean;
+  reactions: ReactionSummary[];
+  threadRootId?: string;
+  threadReplyCount: number;
+  threadLastReplyAt?: string;
+  pinnedAt?: string;
+  pinnedById?: string;
+  mentionIds: string[];
+  // Private messages only.
+  deliveryStatus?: DeliveryStatus;
+  deliveredAt?: string;
+  readAt?: string;
+  // Deleted messages keep their place in history with their content removed.
+  isDeleted: boolean;
+  deletedAt?: string;
+  deletedById?: string;
+  deletionReason?: string;
+}
+
+// A message waiting to be sent at `sendAt`, as shown to its author.
+export interface ScheduledMessage {
+  id: string;
+  chatType: "room" | "private";
+  room?: string;
+  receiverId?: string;
+  text?: string;
+  fileUrl?: string;
+  fileType?: MessageFileType;
+  fileName?: string;
+  replyToId?: string;
+  sendAt: string;
+  status: "pending" | "sending" | "sent" | "cancelled" | "failed";
+  // The delivered message, once sent.
+  messageId?: string;
+  failureReason?: string;
+  createdAt: string;
 }
 
 export interface ContextMenu {
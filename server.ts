@@ -3,22 +3,65 @@ import { parse } from "url";
 import next from "next";
 import { Server as SocketIOServer, Socket } from "socket.io";
 import { connect } from "mongoose";
-import Message, { IMessage } from "./models/Message";
+import { IMessage } from "./models/Message";
+import { ScheduledMessage } from "./models/types";
 import User, { IUser } from "./models/User";
+import { verifyToken, isTokenExpired, isTokenDenied, isSessionActive } from "./lib/auth";
+import { onSessionRevoked } from "./lib/session-events";
+import {
+  getPrivateRoomId,
+  getUserChannel,
+  onMessageEvent,
+} from "./lib/message-events";
+import { addReaction, removeReaction } from "./lib/reactions";
+import { createThreadReply } from "./lib/threads";
+import { pinMessage, unpinMessage } from "./lib/pins";
+import { setRoomPresenceLookup } from "./lib/room-presence";
+import { ReadCursorSummary, markRead } from "./lib/read-receipts";
+import { markDelivered } from "./lib/delivery";
+import { purgeDeletedMessages } from "./lib/message-deletion";
+import { backfillMentionNames } from "./lib/mentions";
+import { FormattedMessage } from "./lib/message-format";
+import {
+  MessageSent,
+  deleteMessage,
+  editMessage,
+  listMessages,
+  sendPrivateMessage,
+  sendRoomMessage,
+} from "./lib/message-service";
+import { SyncRequest, SyncResult, syncConversations } from "./lib/sync";
+import { deliverDueScheduledMessages, scheduleMessage } from "./lib/scheduled-messages";
+import { backfillEmailVerified } from "./lib/email-verification-policy";
+import { AppConfig, ConfigError, getConfig } from "./lib/config";
+import { REMOTE_ADDRESS_HEADER } from "./lib/client-ip";
+import {
+  CORS_ALLOWED_HEADERS,
+  CORS_METHODS,
+  getAllowedOrigins,
+  matchAllowedOrigin,
+} from "./lib/cors-config";
 
 declare module "socket.io" {
   interface Socket {
     userId?: string;
     firstName?: string;
     lastName?: string;
+    role?: IUser["role"];
+    sessionId?: string;
+    tokenExpiresAt?: number;
+    tokenExpiryTimer?: NodeJS.Timeout;
     activeRooms: Set<string>;
   }
 }
 
+// Sender identity fields and receiver names in the event payloads below are
+// accepted for backwards compatibility but ignored: the authenticated socket
+// is the sender, and receivers are looked up by id.
 interface JoinPrivateRoomArgs {
-  senderId: string;
-  senderFirstName: string;
-  senderLastName: string;
+  senderId?: string;
+  senderFirstName?: string;
+  senderLastName?: string;
   receiverId: string;
   receiverFirstName?: string;
   receiverLastName?: string;
@@ -26,13 +69,13 @@ interface JoinPrivateRoomArgs {
 
 interface PrivateMessageArgs {
   id: string;
-  senderId: string;
-  senderFirstName: string;
-  senderLastName: string;
+  senderId?: string;
+  senderFirstName?: string;
+  senderLastName?: string;
   senderProfilePicture?: string;
   receiverId: string;
-  receiverFirstName: string;
-  receiverLastName: string;
+  receiverFirstName?: string;
+  receiverLastName?: string;
   text?: string;
   fileUrl?: string;
   fileType?: IMessage["fileType"];
@@ -49,9 +92,9 @@ interface PrivateMessageArgs {
 
 interface SendMessageArgs {
   id: string;
-  userId: string;
-  firstName: string;
-  lastName: string;
+  userId?: string;
+  firstName?: string;
+  lastName?: string;
   profilePicture?: string;
   text?: string;
   room: string;
@@ -68,10 +111,29 @@ interface SendMessageArgs {
   };
 }
 
+// Acknowledges sendMessage and privateMessage. `duplicate` is set when the
+// client id was already used and `message` is the one stored the first time.
+interface SendAck {
+  success: boolean;
+  messageId?: string;
+  message?: FormattedMessage;
+  duplicate?: boolean;
+  error?: string;
+}
+
+function sendAck({ message, duplicate }: MessageSent): SendAck {
+  return {
+    success: true,
+    messageId: message.id,
+    message,
+    duplicate: duplicate || undefined,
+  };
+}
+
 interface TypingArgs {
   room?: string;
-  firstName: string;
-  lastName: string;
+  firstName?: string;
+  lastName?: string;
   senderId?: string;
   receiverId?: string;
 }
@@ -79,17 +141,68 @@ interface TypingArgs {
 interface EditMessageArgs {
   messageId: string;
   newText: string;
-  userId: string;
+  userId?: string;
 }
 
 interface DeleteMessageArgs {
   messageId: string;
-  userId: string;
+  userId?: string;
+  // Required when a moderator deletes someone else's message.
+  reason?: string;
+}
+
+interface ReactionArgs {
+  messageId: string;
+  emoji: string;
+}
+
+interface MessageDeliveredArgs {
+  messageIds: string[];
+}
+
+interface MarkReadArgs {
+  room?: string;
+  receiverId?: string;
+  messageId?: string;
+}
+
+interface PinArgs {
+  messageId: string;
+}
+
+interface ThreadReplyArgs {
+  rootId: string;
+  // The client-generated id used to deduplicate retries.
+  id?: string;
+  text?: string;
+  fileUrl?: string;
+  fileType?: IMessage["fileType"];
+  fileName?: string;
+}
+
+interface ScheduleMessageArgs {
+  // Exactly one of room and receiverId.
+  room?: string;
+  receiverId?: string;
+  sendAt: string | number;
+  text?: string;
+  fileUrl?: string;
+  fileType?: IMessage["fileType"];
+  fileName?: string;
+  replyToId?: string;
+}
+
+interface SyncArgs {
+  // The last sequence number seen in each conversation.
+  conversations: SyncRequest[];
 }
 
 interface GetPrivateMessagesArgs {
   user1Id: string;
   user2Id: string;
+  // Pages back from this message id; the newest page when omitted.
+  before?: string;
+  limit?: number;
 }
 
 interface OnlineUser {
@@ -108,27 +221,43 @@ interface UserSocketData {
 const dev = process.env.NODE_ENV !== "production";
 const app = next({ dev });
 const handle = app.getRequestHandler();
-const port = process.env.PORT || 10000;
 
-const allowedOrigins = [
-  "https://whispr-o7.vercel.app",
-  "https://whispr-backend-sarl.onrender.com",
-  "http://localhost:3000",
-  "http://localhost:4000",
-];
+// How often soft-deleted messages past their retention period are purged.
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+// How often due scheduled messages are looked for.
+const SCHEDULER_INTERVAL_MS = 15 * 1000;
 
 app.prepare().then(() => {
+  // Next has loaded the .env files by now, so every missing or malformed
+  // variable can be reported before anything starts listening.
+  let config: AppConfig;
+  try {
+    config = getConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+
   const server = createServer((req, res) => {
+    // Route handlers cannot see the connection, so pass its address on.
+    req.headers[REMOTE_ADDRESS_HEADER] = req.socket.remoteAddress || "";
     const parsedUrl = parse(req.url!, true);
     handle(req, res, parsedUrl);
   });
 
   const io = new SocketIOServer(server, {
     cors: {
-      origin: allowedOrigins,
-      methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+      // Requests without an Origin header come from non-browser clients,
+      // which CORS does not apply to.
+      origin: (origin, callback) => {
+        callback(null, !origin || matchAllowedOrigin(origin) !== null);
+      },
+      methods: CORS_METHODS,
       credentials: true,
-      allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
+      allowedHeaders: CORS_ALLOWED_HEADERS,
     },
     transports: ["websocket", "polling"],
   });
@@ -139,190 +268,275 @@ app.prepare().then(() => {
   const typingUsers = new Map<string, Set<string>>();
   const globalOnlineUsers = new Map<string, OnlineUser>();
 
-  const getPrivateRoomId = (userId1: string, userId2: string): string => {
-    const sortedIds = [userId1, userId2].sort();
-    return `private_${sortedIds[0]}_${sortedIds[1]}`;
+  const getHandshakeToken = (socket: Socket): string | undefined => {
+    const authToken = socket.handshake.auth?.token;
+    if (typeof authToken === "string" && authToken) {
+      return authToken;
+    }
+    const authHeader = socket.handshake.headers.authorization;
+    if (authHeader?.startsWith("Bearer ")) {
+      return authHeader.split(" ")[1];
+    }
+    return undefined;
   };
 
-  io.on("connection", (socket: Socket) => {
-    console.log(`New connection: ${socket.id}`);
-    socket.activeRooms = new Set();
+  const scheduleTokenExpiry = (socket: Socket) => {
+    if (socket.tokenExpiryTimer) {
+      clearTimeout(socket.tokenExpiryTimer);
+      socket.tokenExpiryTimer = undefined;
+    }
+    if (!socket.tokenExpiresAt) return;
+
+    // setTimeout overflows past ~24.8 days; the per-event check still applies.
+    const delay = Math.min(socket.tokenExpiresAt - Date.now(), 2 ** 31 - 1);
+    socket.tokenExpiryTimer = setTimeout(() => {
+      socket.emit("tokenExpired", { expiredAt: socket.tokenExpiresAt });
+    }, Math.max(delay, 0));
+  };
 
-    socket.on(
-      "registerUser",
-      async (
-        userId: string,
-        firstName: string,
-        lastName: string,
-        profilePicture?: string
-      ) => {
-        if (!userId || userId === "undefined" || !firstName || !lastName) {
-          socket.emit(
-            "error",
-            "Invalid registration data: userId, firstName, and lastName are required"
-          );
-          return;
-        }
+  // Verifies an access token and binds the user it belongs to onto the socket.
+  // Returns an error message, or null on success.
+  const authenticateSocket = async (
+    socket: Socket,
+    token: string | undefined
+  ): Promise<string | null> => {
+    if (!token) {
+      return "Authentication required";
+    }
+
+    const decoded = verifyToken(token);
+    const tokenUserId: string | undefined = decoded?.id;
+    if (!decoded || decoded.typ !== "access" || !tokenUserId || isTokenExpired(decoded)) {
+      return "Invalid or expired token";
+    }
+    if (isTokenDenied(decoded.jti)) {
+      return "Token has been revoked";
+    }
+    if (!(await isSessionActive(decoded.sid))) {
+      return "Session has been revoked";
+    }
+
+    if (socket.userId && socket.userId !== tokenUserId) {
+      return "Token belongs to a different user";
+    }
+
+    const userDoc = (await User.findById(tokenUserId).select(
+      "firstName lastName role banned"
+    )) as IUser | null;
+    if (!userDoc) {
+      return "User not found";
+    }
+    if (userDoc.banned) {
+      return "User is banned";
+    }
+
+    socket.userId = userDoc._id.toString();
+    socket.firstName = userDoc.firstName;
+    socket.lastName = userDoc.lastName;
+    socket.role = userDoc.role;
+    socket.sessionId = decoded.sid;
+    socket.tokenExpiresAt = decoded.exp ? decoded.exp * 1000 : undefined;
+    scheduleTokenExpiry(socket);
+    return null;
+  };
 
-        try {
-          const userDoc = (await User.findById(userId)) as IUser | null;
-          if (!userDoc) {
-            socket.emit("error", "User not found");
-            return;
-          }
-          if (userDoc.banned) {
-            socket.emit("error", "User is banned");
-            return;
-          }
-          if (!userDoc.profilePicture) {
-            userDoc.profilePicture = "/default-avatar.png";
-            await userDoc.save();
-          }
+  onMessageEvent(({ channel, event, payload }) => {
+    io.to(channel).emit(event, payload);
+  });
 
-          socket.userId = userId;
-          socket.firstName = firstName;
-          socket.lastName = lastName;
+  setRoomPresenceLookup((room) =>
+    Array.from(io.sockets.adapter.rooms.get(room) || [])
+      .map((socketId) => io.sockets.sockets.get(socketId)?.userId)
+      .filter((id): id is string => !!id)
+  );
+
+  onSessionRevoked(({ sessionId, reason }) => {
+    for (const socket of io.sockets.sockets.values()) {
+      if (socket.sessionId === sessionId) {
+        socket.emit("sessionRevoked", { reason });
+        socket.disconnect(true);
+      }
+    }
+  });
 
-          if (!userSockets.has(userId)) {
-            userSockets.set(userId, new Set());
-          }
-          userSockets.get(userId)!.add(socket.id);
+  io.use(async (socket, next) => {
+    try {
+      const error = await authenticateSocket(socket, getHandshakeToken(socket));
+      if (error) {
+        return next(new Error(error));
+      }
+      next();
+    } catch (error) {
+      console.error("Socket authentication failed:", error);
+      next(new Error("Authentication failed"));
+    }
+  });
 
-          const fullName = `${firstName} ${lastName}`;
-          const profilePictureValue = profilePicture || userDoc.profilePicture;
+  io.on("connection", (socket: Socket) => {
+    console.log(`New connection: ${socket.id} (user ${socket.userId})`);
+    socket.activeRooms = new Set();
 
-          if (!globalOnlineUsers.has(userId)) {
-            globalOnlineUsers.set(userId, {
-              userId,
-              fullName,
-              profilePicture: profilePictureValue,
-            });
-            await User.findByIdAndUpdate(userId, { isOnline: true });
-            io.emit("onlineUsers", Array.from(globalOnlineUsers.values()));
-          }
-          socket.emit("onlineUsers", Array.from(globalOnlineUsers.values()));
-        } catch (error) {
-          console.error("Error registering user:", error);
-          socket.emit("error", "Failed to verify user");
+    const userId = socket.userId!;
+    if (!userSockets.has(userId)) {
+      userSockets.set(userId, new Set());
+    }
+    userSockets.get(userId)!.add(socket.id);
+    socket.join(getUserChannel(userId));
+
+    // Once the access token has expired, every event except re-authentication
+    // is dropped until the client supplies a fresh token.
+    socket.use(([event, ...args], next) => {
+      if (event === "reauthenticate") {
+        return next();
+      }
+      if (socket.tokenExpiresAt && Date.now() >= socket.tokenExpiresAt) {
+        socket.emit("tokenExpired", { expiredAt: socket.tokenExpiresAt, event });
+        const ack = args[args.length - 1];
+        if (typeof ack === "function") {
+          ack({ success: false, error: "Token expired" });
         }
+        return;
       }
-    );
+      next();
+    });
 
     socket.on(
-      "joinRoom",
+      "reauthenticate",
       async (
-        room: string,
-        userId: string,
-        firstName: string,
-        lastName: string
+        token: string,
+        callback?: (response: { success: boolean; error?: string }) => void
       ) => {
-        if (
-          !room ||
-          !userId ||
-          userId === "undefined" ||
-          !firstName ||
-          !lastName
-        ) {
-          socket.emit(
-            "error",
-            "Invalid join data: room, userId, firstName, and lastName are required"
-          );
-          return;
-        }
-
         try {
-          const userDoc = (await User.findById(userId)) as IUser | null;
-          if (!userDoc || userDoc.banned) {
-            socket.emit("error", userDoc ? "User is banned" : "User not found");
+          const error = await authenticateSocket(socket, token);
+          if (error) {
+            callback?.({ success: false, error });
             return;
           }
-          if (!userDoc.profilePicture) {
-            userDoc.profilePicture = "/default-avatar.png";
-            await userDoc.save();
-          }
+          callback?.({ success: true });
         } catch (error) {
-          console.error("Error joining room:", error);
-          socket.emit("error", "Failed to verify user");
-          return;
+          console.error("Error re-authenticating socket:", error);
+          callback?.({ success: false, error: "Failed to re-authenticate" });
         }
+      }
+    );
 
-        if (!socket.userId || socket.userId !== userId) {
-          socket.userId = userId;
-          socket.firstName = firstName;
-          socket.lastName = lastName;
-
-          if (!userSockets.has(userId)) {
-            userSockets.set(userId, new Set());
-          }
-          userSockets.get(userId)!.add(socket.id);
+    socket.on("registerUser", async () => {
+      try {
+        const userDoc = (await User.findById(userId)) as IUser | null;
+        if (!userDoc) {
+          socket.emit("error", "User not found");
+          return;
         }
-
-        const previousPublicRoom = users.get(socket.id)?.currentRoom;
-        if (previousPublicRoom && previousPublicRoom !== room) {
-          socket.leave(previousPublicRoom);
-          socket.activeRooms.delete(previousPublicRoom);
-          const prevRoomUsers = usersInPublicRooms.get(previousPublicRoom);
-          if (prevRoomUsers) {
-            const fullName = `${socket.firstName} ${socket.lastName}`;
-            prevRoomUsers.delete(fullName);
-            io.to(previousPublicRoom).emit("userLeft", {
-              username: fullName,
-              room: previousPublicRoom,
-            });
-          }
-          if (typingUsers.has(previousPublicRoom)) {
-            const fullName = `${socket.firstName} ${socket.lastName}`;
-            typingUsers.get(previousPublicRoom)!.delete(fullName);
-            io.to(previousPublicRoom).emit("userStoppedTyping", {
-              username: fullName,
-              room: previousPublicRoom,
-            });
-          }
+        if (userDoc.banned) {
+          socket.emit("error", "User is banned");
+          return;
         }
-
-        socket.join(room);
-        socket.activeRooms.add(room);
-        const fullName = `${firstName} ${lastName}`;
-        users.set(socket.id, {
-          userId,
-          firstName,
-          lastName,
-          currentRoom: room,
-        });
-
-        if (!usersInPublicRooms.has(room)) {
-          usersInPublicRooms.set(room, new Set());
+        if (!userDoc.profilePicture) {
+          userDoc.profilePicture = "/default-avatar.png";
+          await userDoc.save();
         }
-        usersInPublicRooms.get(room)!.add(fullName);
 
-        io.to(room).emit("userJoined", {
-          username: fullName,
-          room,
-        });
+        const fullName = `${socket.firstName} ${socket.lastName}`;
 
         if (!globalOnlineUsers.has(userId)) {
-          const userDoc = (await User.findById(userId)) as IUser | null;
-          const profilePicture =
-            userDoc?.profilePicture || "/default-avatar.png";
-          globalOnlineUsers.set(userId, { userId, fullName, profilePicture });
+          globalOnlineUsers.set(userId, {
+            userId,
+            fullName,
+            profilePicture: userDoc.profilePicture,
+          });
           await User.findByIdAndUpdate(userId, { isOnline: true });
           io.emit("onlineUsers", Array.from(globalOnlineUsers.values()));
         }
         socket.emit("onlineUsers", Array.from(globalOnlineUsers.values()));
+      } catch (error) {
+        console.error("Error registering user:", error);
+        socket.emit("error", "Failed to verify user");
       }
-    );
+    });
+
+    socket.on("joinRoom", async (room: string) => {
+      if (!room) {
+        socket.emit("error", "Invalid join data: room is required");
+        return;
+      }
+
+      try {
+        const userDoc = (await User.findById(userId)) as IUser | null;
+        if (!userDoc || userDoc.banned) {
+          socket.emit("error", userDoc ? "User is banned" : "User not found");
+          return;
+        }
+        if (!userDoc.profilePicture) {
+          userDoc.profilePicture = "/default-avatar.png";
+          await userDoc.save();
+        }
+      } catch (error) {
+        console.error("Error joining room:", error);
+        socket.emit("error", "Failed to verify user");
+        return;
+      }
+
+      const firstName = socket.firstName!;
+      const lastName = socket.lastName!;
+
+      const previousPublicRoom = users.get(socket.id)?.currentRoom;
+      if (previousPublicRoom && previousPublicRoom !== room) {
+        socket.leave(previousPublicRoom);
+        socket.activeRooms.delete(previousPublicRoom);
+        const prevRoomUsers = usersInPublicRooms.get(previousPublicRoom);
+        if (prevRoomUsers) {
+          const fullName = `${socket.firstName} ${socket.lastName}`;
+          prevRoomUsers.delete(fullName);
+          io.to(previousPublicRoom).emit("userLeft", {
+            username: fullName,
+            room: previousPublicRoom,
+          });
+        }
+        if (typingUsers.has(previousPublicRoom)) {
+          const fullName = `${socket.firstName} ${socket.lastName}`;
+          typingUsers.get(previousPublicRoom)!.delete(fullName);
+          io.to(previousPublicRoom).emit("userStoppedTyping", {
+            username: fullName,
+            room: previousPublicRoom,
+          });
+        }
+      }
+
+      socket.join(room);
+      socket.activeRooms.add(room);
+      const fullName = `${firstName} ${lastName}`;
+      users.set(socket.id, {
+        userId,
+        firstName,
+        lastName,
+        currentRoom: room,
+      });
+
+      if (!usersInPublicRooms.has(room)) {
+        usersInPublicRooms.set(room, new Set());
+      }
+      usersInPublicRooms.get(room)!.add(fullName);
+
+      io.to(room).emit("userJoined", {
+        username: fullName,
+        room,
+      });
+
+      if (!globalOnlineUsers.has(userId)) {
+        const userDoc = (await User.findById(userId)) as IUser | null;
+        const profilePicture =
+          userDoc?.profilePicture || "/default-avatar.png";
+        globalOnlineUsers.set(userId, { userId, fullName, profilePicture });
+        await User.findByIdAndUpdate(userId, { isOnline: true });
+        io.emit("onlineUsers", Array.from(globalOnlineUsers.values()));
+      }
+      socket.emit("onlineUsers", Array.from(globalOnlineUsers.values()));
+    });
 
     socket.on(
       "joinPrivateRoom",
       async (
-        {
-          senderId,
-          senderFirstName,
-          senderLastName,
-          receiverId,
-          receiverFirstName,
-          receiverLastName,
-        }: JoinPrivateRoomArgs,
+        { receiverId }: JoinPrivateRoomArgs,
         callback: (response: {
           success: boolean;
           message?: string;
@@ -331,11 +545,13 @@ app.prepare().then(() => {
           error?: string;
         }) => void
       ) => {
-        if (!senderId || !receiverId || !senderFirstName || !senderLastName) {
+        if (!receiverId) {
           callback({ success: false, error: "Invalid private room data" });
           return;
         }
 
+        const senderId = userId;
+
         try {
           const sender = (await User.findById(senderId)) as IUser | null;
           const receiver = (await User.findById(receiverId)) as IUser | null;
@@ -361,15 +577,11 @@ app.prepare().then(() => {
           return;
         }
 
-        const senderFullName = `${senderFirstName} ${senderLastName}`;
         const privateRoomId = getPrivateRoomId(senderId, receiverId);
 
         if (!socket.activeRooms.has(privateRoomId)) {
           socket.join(privateRoomId);
           socket.activeRooms.add(privateRoomId);
-          socket.userId = senderId;
-          socket.firstName = senderFirstName;
-          socket.lastName = senderLastName;
 
           if (!usersInPrivateRooms.has(privateRoomId)) {
             usersInPrivateRooms.set(privateRoomId, new Set());
@@ -377,32 +589,6 @@ app.prepare().then(() => {
           usersInPrivateRooms.get(privateRoomId)!.add(senderId);
         }
 
-        const fetchReceiverDetails = async (): Promise<{
-          firstName: string;
-          lastName: string;
-        }> => {
-          try {
-            const receiverUser = (await User.findById(
-              receiverId
-            )) as IUser | null;
-            if (receiverUser) {
-              return {
-                firstName: receiverUser.firstName || "Unknown",
-                lastName: receiverUser.lastName || "",
-              };
-            }
-            return { firstName: "Unknown", lastName: "" };
-          } catch (error) {
-            console.error("Error fetching receiver details:", error);
-            return { firstName: "Unknown", lastName: "" };
-          }
-        };
-
-        const receiverDetails = await fetchReceiverDetails();
-        const updatedFirstName = receiverFirstName || receiverDetails.firstName;
-        const updatedLastName = receiverLastName || receiverDetails.lastName;
-
-        const receiverFullName = `${updatedFirstName} ${updatedLastName}`;
         const receiverSockets = userSockets.get(receiverId);
         if (receiverSockets) {
           for (const receiverSocketId of receiverSockets) {
@@ -432,12 +618,13 @@ app.prepare().then(() => {
 
     socket.on(
       "leavePrivateRoom",
-      ({ senderId, receiverId }: { senderId: string; receiverId: string }) => {
-        if (!senderId || !receiverId) {
+      ({ receiverId }: { senderId?: string; receiverId: string }) => {
+        if (!receiverId) {
           socket.emit("error", "Invalid leave data");
           return;
         }
 
+        const senderId = userId;
         const privateRoomId = getPrivateRoomId(senderId, receiverId);
         if (socket.activeRooms.has(privateRoomId)) {
           socket.leave(privateRoomId);
@@ -451,112 +638,53 @@ app.prepare().then(() => {
 
     socket.on(
       "sendMessage",
-      async ({
-        id,
-        userId,
-        firstName,
-        lastName,
-        text,
-        room,
-        fileUrl,
-        fileType,
-        fileName,
-        replyTo,
-      }: SendMessageArgs) => {
-        if (!text && !fileUrl) {
-          socket.emit("messageError", "Message cannot be empty.");
-          return;
-        }
-
+      async (
+        { id, text, room, fileUrl, fileType, fileName, replyTo }: SendMessageArgs,
+        callback?: (response: SendAck) => void
+      ) => {
+        let userDoc: IUser | null;
         try {
-          const userDoc = (await User.findById(userId)) as IUser | null;
+          userDoc = (await User.findById(userId)) as IUser | null;
           if (!userDoc || userDoc.banned) {
             socket.emit("error", userDoc ? "User is banned" : "User not found");
+            callback?.({ success: false, error: userDoc ? "User is banned" : "User not found" });
             return;
           }
         } catch (error) {
           console.error("Error sending message:", error);
           socket.emit("error", "Failed to verify user");
+          callback?.({ success: false, error: "Failed to verify user" });
           return;
         }
 
-        const fullName = `${firstName} ${lastName}`;
         try {
-          let replyToData: IMessage["replyTo"] | undefined;
-          if (replyTo?.id) {
-            const repliedMessage = (await Message.findById(
-              replyTo.id
-            )) as IMessage | null;
-            if (!repliedMessage) {
-              socket.emit("messageError", "Replied message not found.");
-              return;
-            }
-            replyToData = {
-              id: repliedMessage._id,
-              sender:
-                replyTo.sender ||
-                `${repliedMessage.firstName} ${repliedMessage.lastName}`,
-              text: replyTo.text || repliedMessage.text,
-              fileUrl: replyTo.fileUrl || repliedMessage.fileUrl,
-              fileType: replyTo.fileType || repliedMessage.fileType,
-              fileName: replyTo.fileName || repliedMessage.fileName,
-            };
-          }
-
-          const senderUser = (await User.findById(userId)
-            .select("profilePicture")
-            .lean()) as IUser | null;
-          const senderProfilePicture =
-            senderUser?.profilePicture || "/default-avatar.png";
-
-          const newMessage = new Message({
-            sender: userId,
-            firstName,
-            lastName,
-            senderProfilePicture: senderProfilePicture,
-            room,
-            text: text || undefined,
-            chatType: "room",
-            fileUrl: fileUrl || undefined,
-            fileType: fileType || undefined,
-            fileName: fileName || undefined,
-            replyTo: replyToData || undefined,
-          });
-          await newMessage.save();
-
-          if (typingUsers.has(room)) {
-            typingUsers.get(room)!.delete(fullName);
-            io.to(room).emit("userStoppedTyping", { username: fullName, room });
-          }
-
-          io.to(room).emit("receiveMessage", {
-            _id: newMessage._id.toString(),
+          // Broadcasts receiveMessage and the mention notifications through
+          // onMessageEvent, the same way as messages posted over REST.
+          const result = await sendRoomMessage(userDoc, room, {
             id,
-            sender: fullName,
-            senderId: userId,
-            senderProfilePicture: newMessage.senderProfilePicture,
-            text: newMessage.text,
-            timestamp: newMessage.createdAt.toISOString(),
-            room: newMessage.room,
-            chatType: newMessage.chatType,
-            isEdited: newMessage.isEdited || false,
-            fileUrl: newMessage.fileUrl,
-            fileType: newMessage.fileType,
-            fileName: newMessage.fileName,
-            replyTo: newMessage.replyTo
-              ? {
-                  id: newMessage.replyTo.id.toString(),
-                  sender: newMessage.replyTo.sender,
-                  text: newMessage.replyTo.text,
-                  fileUrl: newMessage.replyTo.fileUrl,
-                  fileType: newMessage.replyTo.fileType,
-                  fileName: newMessage.replyTo.fileName,
-                }
-              : undefined,
+            text,
+            fileUrl,
+            fileType,
+            fileName,
+            replyTo,
           });
+          if ("error" in result) {
+            socket.emit("messageError", result.error);
+            callback?.({ success: false, error: result.error });
+            return;
+          }
+          if (!result.duplicate) {
+            const fullName = `${socket.firstName} ${socket.lastName}`;
+            if (typingUsers.has(room)) {
+              typingUsers.get(room)!.delete(fullName);
+              io.to(room).emit("userStoppedTyping", { username: fullName, room });
+            }
+          }
+          callback?.(sendAck(result));
         } catch (error) {
           console.error("Error saving message:", error);
           socket.emit("messageError", "Failed to send message.");
+          callback?.({ success: false, error: "Failed to send message." });
         }
       }
     );
@@ -564,192 +692,35 @@ app.prepare().then(() => {
     socket.on(
       "privateMessage",
       async (
-        {
-          id,
-          senderId,
-          senderFirstName,
-          senderLastName,
-          receiverId,
-          receiverFirstName,
-          receiverLastName,
-          text,
-          fileUrl,
-          fileType,
-          fileName,
-          replyTo,
-        }: PrivateMessageArgs,
-        callback: (response: {
-          success: boolean;
-          messageId?: string;
-          error?: string;
-        }) => void
+        { id, receiverId, text, fileUrl, fileType, fileName, replyTo }: PrivateMessageArgs,
+        callback: (response: SendAck) => void
       ) => {
-        if (!text && !fileUrl) {
-          callback({
-            success: false,
-            error: "Private message cannot be empty.",
-          });
-          return;
-        }
-
-        if (!senderId || !receiverId || !senderFirstName || !senderLastName) {
+        if (!receiverId) {
           callback({ success: false, error: "Invalid message data." });
           return;
         }
 
         try {
-          const sender = (await User.findById(senderId)) as IUser | null;
-          const receiver = (await User.findById(receiverId)) as IUser | null;
-          if (!sender || !receiver) {
+          const sender = (await User.findById(userId)) as IUser | null;
+          if (!sender) {
             callback({ success: false, error: "User not found" });
             return;
           }
-          if (sender.banned || receiver.banned) {
-            callback({ success: false, error: "One or both users are banned" });
-            return;
-          }
-        } catch (error) {
-          console.error("Error verifying users for private message:", error);
-          callback({ success: false, error: "Failed to verify users" });
-          return;
-        }
-
-        const senderFullName = `${senderFirstName} ${senderLastName}`;
-        const privateRoomId = getPrivateRoomId(senderId, receiverId);
-
-        const fetchReceiverDetails = async (): Promise<{
-          firstName: string;
-          lastName: string;
-        }> => {
-          try {
-            const receiverUser = (await User.findById(
-              receiverId
-            )) as IUser | null;
-            if (receiverUser) {
-              return {
-                firstName: receiverUser.firstName,
-                lastName: receiverUser.lastName,
-              };
-            }
-            return { firstName: "Unknown", lastName: "" };
-          } catch (error) {
-            console.error("Error fetching receiver details:", error);
-            return { firstName: "Unknown", lastName: "" };
-          }
-        };
-
-        try {
-          const receiverDetails = await fetchReceiverDetails();
-          const updatedFirstName =
-            receiverFirstName || receiverDetails.firstName;
-          const updatedLastName = receiverLastName || receiverDetails.lastName;
-
-          const receiverFullName = `${updatedFirstName} ${updatedLastName}`;
-
-          let replyToData: IMessage["replyTo"] | undefined;
-          if (replyTo?.id) {
-            const repliedMessage = (await Message.findById(
-              replyTo.id
-            )) as IMessage | null;
-            if (!repliedMessage) {
-              callback({ success: false, error: "Replied message not found." });
-              return;
-            }
-            replyToData = {
-              id: repliedMessage._id,
-              sender:
-                replyTo.sender ||
-                `${repliedMessage.firstName} ${repliedMessage.lastName}`,
-              text: replyTo.text || repliedMessage.text,
-              fileUrl: replyTo.fileUrl || repliedMessage.fileUrl,
-              fileType: replyTo.fileType || repliedMessage.fileType,
-              fileName: replyTo.fileName || repliedMessage.fileName,
-            };
-          }
-
-          const senderUser = (await User.findById(senderId)
-            .select("profilePicture")
-            .lean()) as IUser | null;
-          const senderProfilePicture =
-            senderUser?.profilePicture || "/default-avatar.png";
-
-          const newMessage = new Message({
-            sender: senderId,
-            firstName: senderFirstName,
-            lastName: senderLastName,
-            senderProfilePicture: senderProfilePicture,
-            receiver: receiverId,
-            receiverFirstName: updatedFirstName,
-            receiverLastName: updatedLastName,
-            text: text || undefined,
-            chatType: "private",
-            fileUrl: fileUrl || undefined,
-            fileType: fileType || undefined,
-            fileName: fileName || undefined,
-            replyTo: replyToData || undefined,
-          });
-          await newMessage.save();
-
-          const messageToSend = {
-            _id: newMessage._id.toString(),
+          // Broadcasts receivePrivateMessage, or a notification when the
+          // receiver is elsewhere, through onMessageEvent.
+          const result = await sendPrivateMessage(sender, receiverId, {
             id,
-            senderId,
-            senderUsername: senderFullName,
-            senderProfilePicture: newMessage.senderProfilePicture,
-            text: newMessage.text,
-            timestamp: newMessage.createdAt.toISOString(),
-            chatType: newMessage.chatType,
-            receiverId,
-            receiverUsername: receiverFullName,
-            receiverFirstName: newMessage.receiverFirstName,
-            receiverLastName: newMessage.receiverLastName,
-            isEdited: newMessage.isEdited || false,
-            fileUrl: newMessage.fileUrl,
-            fileType: newMessage.fileType,
-            fileName: newMessage.fileName,
-            replyTo: newMessage.replyTo
-              ? {
-                  id: newMessage.replyTo.id.toString(),
-                  sender: newMessage.replyTo.sender,
-                  text: newMessage.replyTo.text,
-                  fileUrl: newMessage.replyTo.fileUrl,
-                  fileType: newMessage.replyTo.fileType,
-                  fileName: newMessage.replyTo.fileName,
-                }
-              : undefined,
-          };
-
-          socket.emit("receivePrivateMessage", messageToSend);
-          if (usersInPrivateRooms.has(privateRoomId)) {
-            io.to(privateRoomId).emit("receivePrivateMessage", messageToSend);
-          }
-
-          if (userSockets.has(receiverId)) {
-            const receiverSocketIds = userSockets.get(receiverId)!;
-            const notificationContent =
-              text || `[File: ${fileName || "Shared File"}]`;
-            for (const receiverSocketId of receiverSocketIds) {
-              const receiverSocket = io.sockets.sockets.get(receiverSocketId);
-              if (receiverSocket && !receiverSocket.rooms.has(privateRoomId)) {
-                receiverSocket.emit("privateMessageNotification", {
-                  senderId,
-                  senderUsername: senderFullName,
-                  messageSnippet:
-                    notificationContent.length > 100
-                      ? notificationContent.substring(0, 97) + "..."
-                      : notificationContent,
-                  fullMessageId: messageToSend._id,
-                  chatType: "private",
-                  timestamp: messageToSend.timestamp,
-                  fileUrl: messageToSend.fileUrl,
-                  fileType: messageToSend.fileType,
-                  fileName: messageToSend.fileName,
-                });
-              }
-            }
+            text,
+            fileUrl,
+            fileType,
+            fileName,
+            replyTo,
+          });
+          if ("error" in result) {
+            callback({ success: false, error: result.error });
+            return;
           }
-
-          callback({ success: true, messageId: newMessage._id.toString() });
+          callback(sendAck(result));
         } catch (error) {
           console.error("Error sending private message:", error);
           callback({
@@ -762,67 +733,32 @@ app.prepare().then(() => {
 
     socket.on(
       "getPrivateMessages",
-      async ({ user1Id, user2Id }: GetPrivateMessagesArgs) => {
+      async ({ user1Id, user2Id, before, limit }: GetPrivateMessagesArgs) => {
         if (!user1Id || !user2Id) {
           socket.emit("messageError", "Invalid user IDs");
           return;
         }
 
-        try {
-          const messages = (await Message.find({
-            $or: [
-              { sender: user1Id, receiver: user2Id, chatType: "private" },
-              { sender: user2Id, receiver: user1Id, chatType: "private" },
-            ],
-          }).lean()) as IMessage[];
-
-          const uniqueSenderIds = new Set(
-            messages.map((m) => m.sender.toString())
-          );
-          const senders = await User.find({
-            _id: { $in: Array.from(uniqueSenderIds) },
-          })
-            .select("profilePicture")
-            .lean();
-          const senderProfileMap = new Map(
-            senders.map((u) => [
-              u._id.toString(),
-              u.profilePicture || "/default-avatar.png",
-            ])
+        if (user1Id !== userId && user2Id !== userId) {
+          socket.emit(
+            "messageError",
+            "Not authorized to view this conversation."
           );
+          return;
+        }
 
-          const formattedMessages = messages.map((m) => ({
-            _id: m._id.toString(),
-            id: m._id.toString(),
-            senderId: m.sender.toString(),
-            senderUsername: `${m.firstName} ${m.lastName}`,
-            senderProfilePicture: senderProfileMap.get(m.sender.toString()),
-            text: m.text,
-            timestamp: m.createdAt.toISOString(),
-            receiverId: m.receiver?.toString(),
-            receiverUsername:
-              m.receiverFirstName && m.receiverLastName
-                ? `${m.receiverFirstName} ${m.receiverLastName}`
-                : undefined,
-            receiverFirstName: m.receiverFirstName,
-            receiverLastName: m.receiverLastName,
-            chatType: m.chatType,
-            isEdited: m.isEdited || false,
-            fileUrl: m.fileUrl,
-            fileType: m.fileType,
-            fileName: m.fileName,
-            replyTo: m.replyTo
-              ? {
-                  id: m.replyTo.id.toString(),
-                  sender: m.replyTo.sender,
-                  text: m.replyTo.text,
-                  fileUrl: m.replyTo.fileUrl,
-                  fileType: m.replyTo.fileType,
-                  fileName: m.replyTo.fileName,
-                }
-              : undefined,
-          }));
-          socket.emit("historicalPrivateMessages", formattedMessages);
+        try {
+          const page = await listMessages(
+            userId,
+            { partnerId: user1Id === userId ? user2Id : user1Id },
+            { before, limit }
+          );
+          if ("error" in page) {
+            socket.emit("messageError", page.error);
+            return;
+          }
+          // Oldest first, as the history is displayed.
+          socket.emit("historicalPrivateMessages", page.messages.slice().reverse());
         } catch (error) {
           console.error("Error fetching private messages:", error);
           socket.emit("messageError", "Failed to fetch private messages.");
@@ -832,139 +768,314 @@ app.prepare().then(() => {
 
     socket.on(
       "editMessage",
-      async ({ messageId, newText, userId }: EditMessageArgs) => {
+      async ({ messageId, newText }: EditMessageArgs) => {
         try {
-          const message = (await Message.findById(
-            messageId
-          )) as IMessage | null;
+          // messageEdited and replySnapshotsUpdated are broadcast by
+          // lib/message-service through onMessageEvent.
+          const result = await editMessage(messageId, userId, newText);
+          if ("error" in result) {
+            socket.emit("messageError", result.error);
+          }
+        } catch (error) {
+          console.error("Error editing message:", error);
+          socket.emit("messageError", "Failed to edit message.");
+        }
+      }
+    );
 
-          if (!message) {
-            socket.emit("messageError", "Message not found.");
-            return;
+    socket.on(
+      "deleteMessage",
+      async ({ messageId, reason }: DeleteMessageArgs) => {
+        try {
+          // The tombstone is broadcast as messageDeleted by
+          // lib/message-deletion through onMessageEvent.
+          const result = await deleteMessage(
+            messageId,
+            { userId, role: socket.role },
+            reason
+          );
+          if ("error" in result) {
+            socket.emit("messageError", result.error);
           }
+        } catch (error) {
+          console.error("Error deleting message:", error);
+          socket.emit("messageError", "Failed to delete message.");
+        }
+      }
+    );
 
-          if (message.sender.toString() !== userId) {
-            socket.emit("messageError", "Not authorized to edit this message.");
+    // Reaction changes are broadcast by lib/reactions through onMessageEvent,
+    // the same way as those made over REST.
+    socket.on(
+      "addReaction",
+      async (
+        { messageId, emoji }: ReactionArgs,
+        callback?: (response: { success: boolean; error?: string }) => void
+      ) => {
+        try {
+          const result = await addReaction(messageId, userId, emoji);
+          if ("error" in result) {
+            socket.emit("messageError", result.error);
+            callback?.({ success: false, error: result.error });
             return;
           }
+          callback?.({ success: true });
+        } catch (error) {
+          console.error("Error adding reaction:", error);
+          socket.emit("messageError", "Failed to add reaction.");
+          callback?.({ success: false, error: "Failed to add reaction." });
+        }
+      }
+    );
 
-          if (message.fileUrl && (!newText || newText.trim() === "")) {
-            socket.emit(
-              "messageError",
-              "Cannot edit a message that is solely a file."
-            );
+    socket.on(
+      "removeReaction",
+      async (
+        { messageId, emoji }: ReactionArgs,
+        callback?: (response: { success: boolean; error?: string }) => void
+      ) => {
+        try {
+          const result = await removeReaction(messageId, userId, emoji);
+          if ("error" in result) {
+            socket.emit("messageError", result.error);
+            callback?.({ success: false, error: result.error });
             return;
           }
+          callback?.({ success: true });
+        } catch (error) {
+          console.error("Error removing reaction:", error);
+          socket.emit("messageError", "Failed to remove reaction.");
+          callback?.({ success: false, error: "Failed to remove reaction." });
+        }
+      }
+    );
 
-          message.text = newText;
-          message.isEdited = true;
-          await message.save();
-
-          const fullSenderName = `${message.firstName} ${message.lastName}`;
-          const fullReceiverName =
-            message.receiverFirstName && message.receiverLastName
-              ? `${message.receiverFirstName} ${message.receiverLastName}`
-              : undefined;
-
-          const senderProfilePicture = message.senderProfilePicture;
-
-          const updatedMessageData = {
-            _id: message._id.toString(),
-            id: message._id.toString(),
-            senderId: message.sender.toString(),
-            senderUsername: fullSenderName,
-            senderProfilePicture: senderProfilePicture,
-            text: message.text,
-            timestamp: message.createdAt.toISOString(),
-            isEdited: true,
-            chatType: message.chatType,
-            room: message.room,
-            receiverId: message.receiver?.toString(),
-            receiverUsername: fullReceiverName,
-            receiverFirstName: message.receiverFirstName,
-            receiverLastName: message.receiverLastName,
-            fileUrl: message.fileUrl,
-            fileType: message.fileType,
-            fileName: message.fileName,
-            replyTo: message.replyTo
-              ? {
-                  id: message.replyTo.id.toString(),
-                  sender: message.replyTo.sender,
-                  text: message.replyTo.text,
-                  fileUrl: message.replyTo.fileUrl,
-                  fileType: message.replyTo.fileType,
-                  fileName: message.replyTo.fileName,
-                }
-              : undefined,
-          };
-
-          if (
-            updatedMessageData.chatType === "room" &&
-            updatedMessageData.room
-          ) {
-            io.to(updatedMessageData.room).emit(
-              "messageEdited",
-              updatedMessageData
-            );
-          } else if (updatedMessageData.chatType === "private") {
-            const privateRoomId = getPrivateRoomId(
-              updatedMessageData.senderId || "",
-              updatedMessageData.receiverId || ""
-            );
-            io.to(privateRoomId).emit("messageEdited", updatedMessageData);
-          }
+    // Sent by the receiving client once private messages reach the device;
+    // the senders are told through messageStatusChanged on their user channel.
+    socket.on(
+      "messageDelivered",
+      async (
+        { messageIds }: MessageDeliveredArgs,
+        callback?: (response: { success: boolean; error?: string }) => void
+      ) => {
+        if (!Array.isArray(messageIds)) {
+          socket.emit("messageError", "Invalid delivery data.");
+          callback?.({ success: false, error: "Invalid delivery data." });
+          return;
+        }
+        try {
+          await markDelivered(userId, messageIds);
+          callback?.({ success: true });
         } catch (error) {
-          console.error("Error editing message:", error);
-          socket.emit("messageError", "Failed to edit message.");
+          console.error("Error marking messages delivered:", error);
+          socket.emit("messageError", "Failed to mark messages delivered.");
+          callback?.({ success: false, error: "Failed to mark messages delivered." });
         }
       }
     );
 
+    // Moves the caller's read cursor in a room or private conversation; the
+    // readReceipt for private conversations is broadcast by lib/read-receipts.
     socket.on(
-      "deleteMessage",
-      async ({ messageId, userId }: DeleteMessageArgs) => {
+      "markRead",
+      async (
+        { room, receiverId, messageId }: MarkReadArgs,
+        callback?: (response: {
+          success: boolean;
+          cursor?: ReadCursorSummary;
+          error?: string;
+        }) => void
+      ) => {
         try {
-          const message = (await Message.findById(
+          const result = await markRead(
+            userId,
+            { room, partnerId: receiverId },
             messageId
-          )) as IMessage | null;
+          );
+          if ("error" in result) {
+            socket.emit("messageError", result.error);
+            callback?.({ success: false, error: result.error });
+            return;
+          }
+          callback?.({ success: true, cursor: result });
+        } catch (error) {
+          console.error("Error marking messages read:", error);
+          socket.emit("messageError", "Failed to mark messages read.");
+          callback?.({ success: false, error: "Failed to mark messages read." });
+        }
+      }
+    );
 
-          if (!message) {
-            socket.emit("messageError", "Message not found.");
+    // messagePinned/messageUnpinned are broadcast by lib/pins through
+    // onMessageEvent, the same way as pins made over REST.
+    socket.on(
+      "pinMessage",
+      async (
+        { messageId }: PinArgs,
+        callback?: (response: { success: boolean; error?: string }) => void
+      ) => {
+        try {
+          const result = await pinMessage(messageId, { userId, role: socket.role });
+          if ("error" in result) {
+            socket.emit("messageError", result.error);
+            callback?.({ success: false, error: result.error });
             return;
           }
+          callback?.({ success: true });
+        } catch (error) {
+          console.error("Error pinning message:", error);
+          socket.emit("messageError", "Failed to pin message.");
+          callback?.({ success: false, error: "Failed to pin message." });
+        }
+      }
+    );
 
-          if (message.sender.toString() !== userId) {
-            socket.emit(
-              "messageError",
-              "Not authorized to delete this message."
-            );
+    socket.on(
+      "unpinMessage",
+      async (
+        { messageId }: PinArgs,
+        callback?: (response: { success: boolean; error?: string }) => void
+      ) => {
+        try {
+          const result = await unpinMessage(messageId, { userId, role: socket.role });
+          if ("error" in result) {
+            socket.emit("messageError", result.error);
+            callback?.({ success: false, error: result.error });
+            return;
+          }
+          callback?.({ success: true });
+        } catch (error) {
+          console.error("Error unpinning message:", error);
+          socket.emit("messageError", "Failed to unpin message.");
+          callback?.({ success: false, error: "Failed to unpin message." });
+        }
+      }
+    );
+
+    // The reply and the updated thread summary are broadcast by lib/threads
+    // through onMessageEvent, along with notifications to thread participants.
+    socket.on(
+      "threadReply",
+      async (
+        { rootId, id, text, fileUrl, fileType, fileName }: ThreadReplyArgs,
+        callback?: (response: {
+          success: boolean;
+          id?: string;
+          duplicate?: boolean;
+          error?: string;
+        }) => void
+      ) => {
+        try {
+          const userDoc = (await User.findById(userId)) as IUser | null;
+          if (!userDoc || userDoc.banned) {
+            const error = userDoc ? "User is banned" : "User not found";
+            socket.emit("error", error);
+            callback?.({ success: false, error });
             return;
           }
 
-          const chatType = message.chatType;
-          const room = message.room;
-          const senderId = message.sender.toString();
-          const receiverId = message.receiver?.toString();
+          const result = await createThreadReply(userDoc, rootId, {
+            id,
+            text,
+            fileUrl,
+            fileType,
+            fileName,
+          });
+          if ("error" in result) {
+            socket.emit("messageError", result.error);
+            callback?.({ success: false, error: result.error });
+            return;
+          }
+          callback?.({ success: true, id: result.message.id, duplicate: result.duplicate });
+        } catch (error) {
+          console.error("Error sending thread reply:", error);
+          socket.emit("messageError", "Failed to send thread reply.");
+          callback?.({ success: false, error: "Failed to send thread reply." });
+        }
+      }
+    );
 
-          await message.deleteOne();
+    // Stores a message to be sent later; the scheduler delivers it as a
+    // normal receiveMessage/receivePrivateMessage. Listing, editing and
+    // cancelling go through /api/messages/scheduled.
+    socket.on(
+      "scheduleMessage",
+      async (
+        input: ScheduleMessageArgs,
+        callback?: (response: {
+          success: boolean;
+          scheduled?: ScheduledMessage;
+          error?: string;
+        }) => void
+      ) => {
+        try {
+          const userDoc = (await User.findById(userId)) as IUser | null;
+          if (!userDoc) {
+            socket.emit("error", "User not found");
+            callback?.({ success: false, error: "User not found" });
+            return;
+          }
+          const result = await scheduleMessage(userDoc, {
+            room: input?.room,
+            receiverId: input?.receiverId,
+            sendAt: input?.sendAt,
+            text: input?.text,
+            fileUrl: input?.fileUrl,
+            fileType: input?.fileType,
+            fileName: input?.fileName,
+            replyToId: input?.replyToId,
+          });
+          if ("error" in result) {
+            socket.emit("messageError", result.error);
+            callback?.({ success: false, error: result.error });
+            return;
+          }
+          callback?.({ success: true, scheduled: result });
+        } catch (error) {
+          console.error("Error scheduling message:", error);
+          socket.emit("messageError", "Failed to schedule message.");
+          callback?.({ success: false, error: "Failed to schedule message." });
+        }
+      }
+    );
 
-          if (chatType === "room" && room) {
-            io.to(room).emit("messageDeleted", { messageId });
-          } else if (chatType === "private" && receiverId) {
-            const privateRoomId = getPrivateRoomId(senderId, receiverId);
-            io.to(privateRoomId).emit("messageDeleted", { messageId });
+    // Sent after a reconnect: replays what changed in each conversation since
+    // the client's last sequence number, or tells it to refetch.
+    socket.on(
+      "sync",
+      async (
+        { conversations }: SyncArgs,
+        callback?: (response: {
+          success: boolean;
+          results?: SyncResult[];
+          error?: string;
+        }) => void
+      ) => {
+        try {
+          if (!Array.isArray(conversations)) {
+            socket.emit("messageError", "conversations must be an array.");
+            callback?.({ success: false, error: "conversations must be an array." });
+            return;
+          }
+          const results = await syncConversations(userId, conversations);
+          if (callback) {
+            callback({ success: true, results });
+          } else {
+            socket.emit("syncResult", results);
           }
         } catch (error) {
-          console.error("Error deleting message:", error);
-          socket.emit("messageError", "Failed to delete message.");
+          console.error("Error syncing conversations:", error);
+          socket.emit("messageError", "Failed to sync conversations.");
+          callback?.({ success: false, error: "Failed to sync conversations." });
         }
       }
     );
 
     socket.on(
       "typing",
-      ({ room, firstName, lastName, senderId, receiverId }: TypingArgs) => {
-        const fullName = `${firstName} ${lastName}`;
+      ({ room, receiverId }: TypingArgs) => {
+        const fullName = `${socket.firstName} ${socket.lastName}`;
+        const senderId = userId;
         if (room) {
           if (!typingUsers.has(room)) {
             typingUsers.set(room, new Set());
@@ -988,8 +1099,9 @@ app.prepare().then(() => {
 
     socket.on(
       "stopTyping",
-      ({ room, firstName, lastName, senderId, receiverId }: TypingArgs) => {
-        const fullName = `${firstName} ${lastName}`;
+      ({ room, receiverId }: TypingArgs) => {
+        const fullName = `${socket.firstName} ${socket.lastName}`;
+        const senderId = userId;
         if (room) {
           if (typingUsers.has(room)) {
             typingUsers.get(room)!.delete(fullName);
@@ -1011,6 +1123,9 @@ app.prepare().then(() => {
 
     socket.on("disconnect", async () => {
       console.log(`Disconnected: ${socket.id}`);
+      if (socket.tokenExpiryTimer) {
+        clearTimeout(socket.tokenExpiryTimer);
+      }
       if (users.has(socket.id)) {
         const { firstName, lastName, currentRoom, userId } = users.get(
           socket.id
@@ -1071,19 +1186,47 @@ app.prepare().then(() => {
     });
   });
 
-  const MONGODB_URI = process.env.MONGODB_URI;
-
-  if (!MONGODB_URI) {
-    console.error("MONGODB_URI is not defined");
-    process.exit(1);
-  }
-
-  connect(MONGODB_URI)
+  connect(config.mongodbUri)
     .then(() => {
       console.log("Connected to MongoDB");
-      server.listen(port, () => {
-        console.log(`Server running on port ${port}`);
-        console.log(`Allowed origins: ${allowedOrigins.join(", ")}`);
+      backfillMentionNames()
+        .then((updated) => {
+          if (updated > 0) console.log(`Backfilled mention names for ${updated} users`);
+        })
+        .catch((error) => console.error("Error backfilling mention names:", error));
+      backfillEmailVerified()
+        .then((updated) => {
+          if (updated > 0) console.log(`Marked ${updated} existing users as email-verified`);
+        })
+        .catch((error) => console.error("Error backfilling email verification:", error));
+      setInterval(() => {
+        purgeDeletedMessages()
+          .then((purged) => {
+            if (purged > 0) console.log(`Purged ${purged} deleted messages`);
+          })
+          .catch((error) => console.error("Error purging deleted messages:", error));
+      }, PURGE_INTERVAL_MS).unref();
+
+      // Pending rows live in MongoDB, so messages that fell due while the
+      // server was down go out on the first run.
+      let deliveringScheduled = false;
+      const runScheduler = () => {
+        if (deliveringScheduled) return;
+        deliveringScheduled = true;
+        deliverDueScheduledMessages()
+          .then((handled) => {
+            if (handled > 0) console.log(`Delivered ${handled} scheduled messages`);
+          })
+          .catch((error) => console.error("Error delivering scheduled messages:", error))
+          .finally(() => {
+            deliveringScheduled = false;
+          });
+      };
+      runScheduler();
+      setInterval(runScheduler, SCHEDULER_INTERVAL_MS).unref();
+      server.listen(config.port, () => {
+        console.log(`Server running on port ${config.port}`);
+        console.log(`Allowed origins: ${getAllowedOrigins().join(", ")}`);
       });
     })
     .catch((err) => {